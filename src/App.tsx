@@ -6,7 +6,7 @@ import ProjectPage from './components/ProjectPage';
 import ModulesPage from './components/Library/ModulesPage';
 import InvertersPage from './components/Library/InvertersPage';
 import DesignEditorPage from './components/DesignEditorPage';
-import { ProjectData, Module, Design } from './types/project';
+import { ProjectData, Module, Design, Inverter } from './types/project';
 import { supabase } from './integrations/supabase/client';
 
 type View = 'dashboard' | 'project' | 'library_modules' | 'library_inverters' | 'design_editor';
@@ -41,6 +41,7 @@ function App() {
             address: p.address,
             projectType: p.project_type,
             coordinates: p.latitude && p.longitude ? { lat: p.latitude, lng: p.longitude } : undefined,
+            designTemperatures: p.record_low_temp != null && p.average_high_temp != null ? { recordLow: p.record_low_temp, averageHigh: p.average_high_temp } : undefined,
           }));
           setProjects(formattedProjects);
         }
@@ -97,6 +98,7 @@ function App() {
         address: data.address,
         projectType: data.project_type,
         coordinates: data.latitude && data.longitude ? { lat: data.latitude, lng: data.longitude } : undefined,
+        designTemperatures: data.record_low_temp != null && data.average_high_temp != null ? { recordLow: data.record_low_temp, averageHigh: data.average_high_temp } : undefined,
       };
       
       setProjects(prev => [newProject, ...prev]);
@@ -138,6 +140,11 @@ function App() {
     }
   };
 
+  const handleUpdateProject = (updatedProject: ProjectData) => {
+    setCurrentProject(updatedProject);
+    setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
+  };
+
   const handleBackToDashboard = () => {
     setCurrentView('dashboard');
     setCurrentProject(null);
@@ -196,6 +203,42 @@ function App() {
     }
   };
 
+  const handleSaveInverter = async (inverterData: Inverter) => {
+    try {
+      const { error } = await supabase.from('inverters').insert({
+        model_name: inverterData.model_name,
+        manufacturer: inverterData.manufacturer,
+        raw_ond_data: inverterData.raw_ond_data,
+        pnom_ac: inverterData.pnom_ac,
+        pmax_ac: inverterData.pmax_ac,
+        pnom_dc: inverterData.pnom_dc,
+        pmax_dc: inverterData.pmax_dc,
+        vout_ac: inverterData.vout_ac,
+        vmpp_min: inverterData.vmpp_min,
+        vmpp_max: inverterData.vmpp_max,
+        vabs_max: inverterData.vabs_max,
+        imax_dc: inverterData.imax_dc,
+        n_inputs: inverterData.n_inputs,
+        n_mppt: inverterData.n_mppt,
+        efficiency_max: inverterData.efficiency_max,
+        efficiency_euro: inverterData.efficiency_euro,
+        efficiency_curves: inverterData.efficiency_curves,
+        data_source: inverterData.data_source,
+      });
+
+      if (error) {
+        console.error('Error saving inverter:', error);
+        alert('Failed to save inverter.');
+      } else {
+        alert('Inverter saved successfully!');
+        // The InvertersPage will re-fetch its own data, so no need to update state here.
+      }
+    } catch (error) {
+      console.error('Failed to save inverter:', error);
+      alert('Failed to save inverter.');
+    }
+  };
+
   const renderCurrentView = () => {
     switch (currentView) {
       case 'dashboard':
@@ -207,7 +250,7 @@ function App() {
                   isLoading={isLoadingProjects}
                 />;
       case 'project':
-        return currentProject ? <ProjectPage key={projectPageKey} project={currentProject} onBack={handleBackToDashboard} onSelectDesign={handleSelectDesign} /> : <DashboardHome onCreateProject={handleCreateProject} projects={[]} onSelectProject={handleSelectProject} onDeleteProject={handleDeleteProject} isLoading={true} />;
+        return currentProject ? <ProjectPage key={projectPageKey} project={currentProject} onBack={handleBackToDashboard} onSelectDesign={handleSelectDesign} onProjectUpdate={handleUpdateProject} /> : <DashboardHome onCreateProject={handleCreateProject} projects={[]} onSelectProject={handleSelectProject} onDeleteProject={handleDeleteProject} isLoading={true} />;
       case 'design_editor':
         if (currentProject && currentDesign) {
           return <DesignEditorPage project={currentProject} design={currentDesign} onBack={handleBackToProject} />;
@@ -216,7 +259,7 @@ function App() {
       case 'library_modules':
         return <ModulesPage onSaveModule={handleSaveModule} />;
       case 'library_inverters':
-        return <InvertersPage />;
+        return <InvertersPage onSaveInverter={handleSaveInverter} />;
       default:
         return <DashboardHome onCreateProject={handleCreateProject} projects={projects} onSelectProject={handleSelectProject} onDeleteProject={handleDeleteProject} isLoading={isLoadingProjects} />;
     }
@@ -1,14 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { ProjectData, Design, FieldSegment, Module } from '../types/project';
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectData, Design, FieldSegment, Module, Inverter, Obstruction } from '../types/project';
 import { MapContainer, TileLayer, useMap } from 'react-leaflet';
 import DesignEditorSidebar from './DesignEditorSidebar';
 import MapDrawingLayer from './MapDrawingLayer';
 import FieldSegmentLayer from './FieldSegmentLayer';
-import { ArrowLeft, ChevronDown } from 'lucide-react';
+import ObstructionLayer from './ObstructionLayer';
+import ModuleEditLayer from './ModuleEditLayer';
+import { ArrowLeft, ChevronDown, Undo2, Redo2, Bookmark } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
-import { LatLngTuple } from 'leaflet';
+import { LatLngTuple, Point } from 'leaflet';
 import { supabase } from '../integrations/supabase/client';
 import MaptalksViewer from './MaptalksViewer';
+import { DEFAULT_DESIGN_TEMPERATURES } from '../utils/stringSizing';
+import { calculateDistanceInFeet, isPointInPolygon } from '../utils/geometry';
+import { DesignAutosave, DesignDraft, SaveStatus, createDesignAutosave } from '../utils/designAutosave';
+import { saveDesignSnapshot } from '../utils/designSnapshots';
+import { EMPTY_HISTORY, EditHistory, SegmentCommand, applyCommand, createUpdateCommand, recordCommand, redoCommand, undoCommand } from '../utils/editHistory';
 
 interface DesignEditorPageProps {
   project: ProjectData;
@@ -28,6 +35,24 @@ const MAP_OPTIONS = [
   { value: 'maptalk-streets', label: 'MapTalk Streets', url: 'https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}' },
 ];
 
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: 'Saved',
+  pending: 'Saving…',
+  saving: 'Saving…',
+  offline: 'Offline',
+  error: 'Save failed, retrying…',
+  conflict: 'Not saved: changed elsewhere',
+};
+
+const SAVE_STATUS_COLORS: Record<SaveStatus, string> = {
+  saved: 'text-gray-600',
+  pending: 'text-gray-600',
+  saving: 'text-gray-600',
+  offline: 'text-yellow-700',
+  error: 'text-red-600',
+  conflict: 'text-red-600',
+};
+
 const getMapAttribution = (mapType: string) => {
   if (mapType.startsWith('maptiler')) return '&copy; <a href="https://www.maptiler.com/copyright/" target="_blank">MapTiler</a> &copy; <a href="https://www.openstreetmap.org/copyright" target="_blank">OpenStreetMap</a> contributors';
   if (mapType.startsWith('google') || mapType.startsWith('maptalk')) return '&copy; Google Maps';
@@ -46,18 +71,53 @@ const MapResizer: React.FC<{ isSidebarOpen: boolean }> = ({ isSidebarOpen }) =>
 const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, onBack }) => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isDrawing, setIsDrawing] = useState(false);
+  const [drawingTarget, setDrawingTarget] = useState<'segment' | 'obstruction' | 'hole'>('segment');
+  const [obstructionShape, setObstructionShape] = useState<Obstruction['shape']>('polygon');
   const [drawingPoints, setDrawingPoints] = useState<LatLngTuple[]>([]);
   const [drawingArea, setDrawingArea] = useState(0);
   const [fieldSegments, setFieldSegments] = useState<FieldSegment[]>([]);
   const [selectedSegment, setSelectedSegment] = useState<FieldSegment | null>(null);
+  const [obstructions, setObstructions] = useState<Obstruction[]>([]);
+  const [selectedObstruction, setSelectedObstruction] = useState<Obstruction | null>(null);
+  const [isEditingModules, setIsEditingModules] = useState(false);
+  const [maxNameplate, setMaxNameplate] = useState<number | undefined>(design.maxNameplate);
   const [modules, setModules] = useState<Module[]>([]);
+  const [inverters, setInverters] = useState<Inverter[]>([]);
   const [selectedMapType, setSelectedMapType] = useState('google-satellite-2d');
   const [isMapDropdownOpen, setIsMapDropdownOpen] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [conflictingDraft, setConflictingDraft] = useState<DesignDraft | null>(null);
+  const autosave = useRef<DesignAutosave | null>(null);
+  // Several layers can report layouts in one render, so updates build on the latest list rather than the render's
+  const latestSegments = useRef<FieldSegment[]>([]);
+  const latestObstructions = useRef<Obstruction[]>([]);
+  const latestMaxNameplate = useRef<number | undefined>(design.maxNameplate);
 
   const isMaptalksView = selectedMapType === 'google-satellite-3d';
 
   useEffect(() => {
     setFieldSegments(design.field_segments || []);
+    latestSegments.current = design.field_segments || [];
+    setObstructions(design.obstructions || []);
+    latestObstructions.current = design.obstructions || [];
+    setMaxNameplate(design.maxNameplate);
+    latestMaxNameplate.current = design.maxNameplate;
+    setHistory(EMPTY_HISTORY);
+  }, [design]);
+
+  useEffect(() => {
+    const saver = createDesignAutosave({
+      designId: design.id,
+      loaded: { fieldSegments: design.field_segments || [], obstructions: design.obstructions || [], maxNameplate: design.maxNameplate },
+      loadedAt: design.lastModified,
+      onStatusChange: setSaveStatus,
+      onConflict: setConflictingDraft,
+    });
+    autosave.current = saver;
+    setSaveStatus('saved');
+    setConflictingDraft(null);
+    return () => saver.dispose();
   }, [design]);
 
   useEffect(() => {
@@ -69,19 +129,80 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
     fetchModules();
   }, []);
 
-  const saveFieldSegments = async (segmentsToSave: FieldSegment[]) => {
-    try {
-      const { error } = await supabase
-        .from('designs')
-        .update({ field_segments: segmentsToSave, last_modified: new Date().toISOString() })
-        .eq('id', design.id);
+  useEffect(() => {
+    const fetchInverters = async () => {
+      const { data, error } = await supabase.from('inverters').select('*');
+      if (error) console.error('Error fetching inverters:', error);
+      else setInverters(data || []);
+    };
+    fetchInverters();
+  }, []);
+
+  // Changes are batched and written by the autosave. Drafts are built from the refs so a callback from an older
+  // render can't queue stale obstructions or caps.
+  const scheduleSave = () => {
+    autosave.current?.schedule({
+      fieldSegments: latestSegments.current,
+      obstructions: latestObstructions.current,
+      maxNameplate: latestMaxNameplate.current,
+    });
+  };
 
-      if (error) {
-        console.error('Error saving field segments:', error);
-      }
-    } catch (error) {
-      console.error('Failed to save field segments:', error);
+  const saveFieldSegments = (segmentsToSave: FieldSegment[]) => {
+    latestSegments.current = segmentsToSave;
+    scheduleSave();
+  };
+
+  const saveObstructions = (obstructionsToSave: Obstruction[]) => {
+    latestObstructions.current = obstructionsToSave;
+    scheduleSave();
+  };
+
+  const handleUpdateMaxNameplate = (value: number | undefined) => {
+    setMaxNameplate(value);
+    latestMaxNameplate.current = value;
+    scheduleSave();
+  };
+
+  const handleResolveConflict = (resolution: 'merge' | 'overwrite') => {
+    // The version saved elsewhere is about to be replaced, so keep a copy of it
+    if (conflictingDraft) {
+      const label = resolution === 'merge' ? 'Before merging changes' : 'Before overwriting changes';
+      saveDesignSnapshot(design.id, label, conflictingDraft.fieldSegments, true);
     }
+    const resolved = autosave.current?.resolveConflict(resolution);
+    setConflictingDraft(null);
+    if (!resolved) return;
+    setFieldSegments(resolved.fieldSegments);
+    latestSegments.current = resolved.fieldSegments;
+    setObstructions(resolved.obstructions);
+    latestObstructions.current = resolved.obstructions;
+    setMaxNameplate(resolved.maxNameplate);
+    latestMaxNameplate.current = resolved.maxNameplate;
+    if (selectedSegment) setSelectedSegment(resolved.fieldSegments.find(seg => seg.id === selectedSegment.id) || null);
+    if (selectedObstruction) setSelectedObstruction(resolved.obstructions.find(o => o.id === selectedObstruction.id) || null);
+  };
+
+  const handleSaveSnapshot = async () => {
+    const name = window.prompt('Snapshot name:', `${design.name} ${new Date().toLocaleDateString()}`);
+    if (!name?.trim()) return;
+    const snapshot = await saveDesignSnapshot(design.id, name.trim(), latestSegments.current);
+    if (!snapshot) alert('Failed to save snapshot.');
+  };
+
+  const handleBack = async () => {
+    if (conflictingDraft && !window.confirm('Your latest changes have not been saved because this design was changed elsewhere. Leave anyway?')) return;
+    await autosave.current?.flush();
+    onBack();
+  };
+
+  // kWp each segment may use: its own cap, and whatever the design cap leaves after the segments listed before it.
+  const getSegmentNameplateLimit = (index: number): number | undefined => {
+    const segmentCap = fieldSegments[index].maxNameplate;
+    if (maxNameplate === undefined) return segmentCap;
+    const usedBefore = fieldSegments.slice(0, index).reduce((sum, seg) => sum + (seg.nameplate || 0), 0);
+    const remaining = Math.max(0, maxNameplate - usedBefore);
+    return segmentCap === undefined ? remaining : Math.min(segmentCap, remaining);
   };
 
   const handleStartDrawing = () => {
@@ -89,14 +210,74 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
       alert("Drawing is not supported in the 3D view. Please switch to a 2D map to create or edit field segments.");
       return;
     }
+    setDrawingTarget('segment');
+    setIsDrawing(true);
+    setSelectedSegment(null);
+    setSelectedObstruction(null);
+    setDrawingPoints([]);
+  };
+
+  const handleStartDrawingObstruction = (shape: Obstruction['shape']) => {
+    if (isMaptalksView) {
+      alert("Drawing is not supported in the 3D view. Please switch to a 2D map to create or edit obstructions.");
+      return;
+    }
+    setDrawingTarget('obstruction');
+    setObstructionShape(shape);
     setIsDrawing(true);
     setSelectedSegment(null);
+    setSelectedObstruction(null);
+    setDrawingPoints([]);
+  };
+
+  // Holes are drawn into the selected segment, which stays selected meanwhile.
+  const handleStartDrawingHole = () => {
+    if (!selectedSegment) return;
+    if (isMaptalksView) {
+      alert("Drawing is not supported in the 3D view. Please switch to a 2D map to add holes to a field segment.");
+      return;
+    }
+    setDrawingTarget('hole');
+    setIsDrawing(true);
+    setIsEditingModules(false);
+    setSelectedObstruction(null);
     setDrawingPoints([]);
   };
 
+  const createObstruction = () => {
+    const isCircle = obstructionShape === 'circle';
+    if (isCircle ? drawingPoints.length !== 2 : drawingPoints.length < 3) return;
+
+    // An obstruction drawn on a roof stands on that roof.
+    const anchor = drawingPoints[0];
+    const hostSegment = fieldSegments.find(seg =>
+      isPointInPolygon(new Point(anchor[1], anchor[0]), seg.points.map(p => new Point(p[1], p[0])))
+    );
+    const newObstruction: Obstruction = {
+      id: new Date().toISOString(),
+      shape: obstructionShape,
+      points: isCircle ? [drawingPoints[0]] : drawingPoints,
+      radius: isCircle ? calculateDistanceInFeet(drawingPoints[0], drawingPoints[1]) : undefined,
+      baseHeight: hostSegment?.surfaceHeight || 0,
+      height: 3,
+      buffer: 1,
+      description: `Obstruction ${obstructions.length + 1}`,
+    };
+    const updatedObstructions = [...latestObstructions.current, newObstruction];
+    setObstructions(updatedObstructions);
+    saveObstructions(updatedObstructions);
+    setSelectedObstruction(newObstruction);
+  };
+
   const handleStopDrawing = () => {
     setIsDrawing(false);
-    if (drawingPoints.length > 2) {
+    if (drawingTarget === 'obstruction') {
+      createObstruction();
+    } else if (drawingTarget === 'hole') {
+      if (selectedSegment && drawingPoints.length > 2) {
+        handleUpdateSegment(selectedSegment.id, { holes: [...(selectedSegment.holes || []), drawingPoints] });
+      }
+    } else if (drawingPoints.length > 2) {
       const newSegment: FieldSegment = {
         id: new Date().toISOString(),
         points: drawingPoints,
@@ -119,9 +300,7 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
         spanRise: 0,
         alignment: 'center',
       };
-      const updatedSegments = [...fieldSegments, newSegment];
-      setFieldSegments(updatedSegments);
-      saveFieldSegments(updatedSegments);
+      runCommand({ kind: 'add', segment: newSegment, index: fieldSegments.length });
       setSelectedSegment(newSegment);
     }
     setDrawingPoints([]);
@@ -129,25 +308,98 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
 
   const handleClearDrawing = () => setDrawingPoints([]);
 
-  const handleUpdateSegment = (id: string, updates: Partial<FieldSegment>) => {
-    const updatedSegments = fieldSegments.map(seg => seg.id === id ? { ...seg, ...updates } : seg);
+  const commitSegments = (updatedSegments: FieldSegment[]) => {
+    latestSegments.current = updatedSegments;
     setFieldSegments(updatedSegments);
     saveFieldSegments(updatedSegments);
-    if (selectedSegment?.id === id) {
-      const newSelectedSegment = updatedSegments.find(seg => seg.id === id);
-      setSelectedSegment(newSelectedSegment || null);
+    if (selectedSegment) {
+      setSelectedSegment(updatedSegments.find(seg => seg.id === selectedSegment.id) || null);
     }
   };
 
+  // Designer edits go through the undo history; derived results (layouts, areas) are written directly.
+  const runCommand = (command: SegmentCommand) => {
+    setHistory(h => recordCommand(h, command));
+    commitSegments(applyCommand(latestSegments.current, command));
+  };
+
+  const handleUpdateSegment = (id: string, updates: Partial<FieldSegment>, groupId?: string) => {
+    const segment = latestSegments.current.find(seg => seg.id === id);
+    if (segment) runCommand(createUpdateCommand(segment, updates, groupId));
+  };
+
+  const handleLayoutChange = (id: string, updates: Partial<FieldSegment>) => {
+    // Layers recompute whenever a segment changes, including after their own results land; only real changes are stored
+    const segment = latestSegments.current.find(seg => seg.id === id);
+    const isChanged = !!segment && (Object.keys(updates) as (keyof FieldSegment)[])
+      .some(key => JSON.stringify(segment[key]) !== JSON.stringify(updates[key]));
+    if (!isChanged) return;
+    commitSegments(latestSegments.current.map(seg => seg.id === id ? { ...seg, ...updates } : seg));
+  };
+
   const handleDeleteSegment = (id: string) => {
-    const updatedSegments = fieldSegments.filter(seg => seg.id !== id);
-    setFieldSegments(updatedSegments);
-    saveFieldSegments(updatedSegments);
-    if (selectedSegment?.id === id) {
-      setSelectedSegment(null);
+    const index = latestSegments.current.findIndex(seg => seg.id === id);
+    if (index !== -1) runCommand({ kind: 'delete', segment: latestSegments.current[index], index });
+  };
+
+  const handleUndo = () => {
+    const result = undoCommand(history, latestSegments.current);
+    if (!result) return;
+    setHistory(result.history);
+    commitSegments(result.segments);
+  };
+
+  const handleRedo = () => {
+    const result = redoCommand(history, latestSegments.current);
+    if (!result) return;
+    setHistory(result.history);
+    commitSegments(result.segments);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isDrawing) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleUpdateObstruction = (id: string, updates: Partial<Obstruction>) => {
+    const updatedObstructions = latestObstructions.current.map(o => o.id === id ? { ...o, ...updates } : o);
+    setObstructions(updatedObstructions);
+    saveObstructions(updatedObstructions);
+    if (selectedObstruction?.id === id) {
+      setSelectedObstruction(updatedObstructions.find(o => o.id === id) || null);
+    }
+  };
+
+  const handleDeleteObstruction = (id: string) => {
+    const updatedObstructions = latestObstructions.current.filter(o => o.id !== id);
+    setObstructions(updatedObstructions);
+    saveObstructions(updatedObstructions);
+    if (selectedObstruction?.id === id) {
+      setSelectedObstruction(null);
     }
   };
 
+  const handleSelectSegment = (segment: FieldSegment | null) => {
+    if (segment?.id !== selectedSegment?.id) setIsEditingModules(false);
+    setSelectedObstruction(null);
+    setSelectedSegment(segment);
+  };
+
+  const handleSelectObstruction = (obstruction: Obstruction | null) => {
+    setIsEditingModules(false);
+    setSelectedSegment(null);
+    setSelectedObstruction(obstruction);
+  };
+
   const mapCenter: [number, number] = project.coordinates ? [project.coordinates.lat, project.coordinates.lng] : [37.7749, -122.4194];
 
   const currentMapOption = MAP_OPTIONS.find(option => option.value === selectedMapType) || MAP_OPTIONS[0];
@@ -165,24 +417,81 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
         onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
         isDrawing={isDrawing}
         onStartDrawing={handleStartDrawing}
+        onStartDrawingObstruction={handleStartDrawingObstruction}
+        onStartDrawingHole={handleStartDrawingHole}
+        drawingTarget={drawingTarget}
         onStopDrawing={handleStopDrawing}
         onClearDrawing={handleClearDrawing}
         drawingArea={drawingArea}
         modules={modules}
+        inverters={inverters}
+        designTemperatures={project.designTemperatures || DEFAULT_DESIGN_TEMPERATURES}
         fieldSegments={fieldSegments}
         selectedSegment={selectedSegment}
-        onSelectSegment={setSelectedSegment}
+        onSelectSegment={handleSelectSegment}
         onUpdateSegment={handleUpdateSegment}
         onDeleteSegment={handleDeleteSegment}
+        obstructions={obstructions}
+        selectedObstruction={selectedObstruction}
+        onSelectObstruction={handleSelectObstruction}
+        onUpdateObstruction={handleUpdateObstruction}
+        onDeleteObstruction={handleDeleteObstruction}
         isDrawingDisabled={isMaptalksView}
+        maxNameplate={maxNameplate}
+        onUpdateMaxNameplate={handleUpdateMaxNameplate}
+        isEditingModules={isEditingModules}
+        onToggleEditModules={() => setIsEditingModules(!isEditingModules)}
       />
       <div className="flex-1 relative">
-        <div className="absolute top-0 left-0 z-[1000] p-4">
-          <button onClick={onBack} className="bg-white/80 backdrop-blur-sm text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-white transition-colors flex items-center space-x-2 shadow-md">
+        <div className="absolute top-0 left-0 z-[1000] p-4 flex items-center space-x-2">
+          <button onClick={handleBack} className="bg-white/80 backdrop-blur-sm text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-white transition-colors flex items-center space-x-2 shadow-md">
             <ArrowLeft className="w-5 h-5" />
             <span>Back to Project</span>
           </button>
+          <button
+            onClick={handleUndo}
+            disabled={history.undo.length === 0 || isDrawing}
+            className="bg-white/80 backdrop-blur-sm text-gray-800 p-2 rounded-lg hover:bg-white transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={history.redo.length === 0 || isDrawing}
+            className="bg-white/80 backdrop-blur-sm text-gray-800 p-2 rounded-lg hover:bg-white transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleSaveSnapshot}
+            className="bg-white/80 backdrop-blur-sm text-gray-800 p-2 rounded-lg hover:bg-white transition-colors shadow-md"
+            title="Save Snapshot"
+          >
+            <Bookmark className="w-5 h-5" />
+          </button>
+          <span className={`bg-white/80 backdrop-blur-sm px-3 py-1 rounded-lg text-sm shadow-md ${SAVE_STATUS_COLORS[saveStatus]}`}>
+            {SAVE_STATUS_LABELS[saveStatus]}
+          </span>
         </div>
+        {conflictingDraft && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[1001] bg-white rounded-lg shadow-lg border border-red-200 p-4 w-[28rem] text-sm">
+            <p className="font-semibold text-gray-800">This design was changed in another tab or by another user.</p>
+            <p className="text-gray-600 mt-1">
+              The saved version has {conflictingDraft.fieldSegments.length} field segment{conflictingDraft.fieldSegments.length === 1 ? '' : 's'}.
+              Merge keeps their changes to segments you haven't touched; overwrite replaces the saved version with yours.
+            </p>
+            <div className="flex space-x-2 mt-3">
+              <button onClick={() => handleResolveConflict('merge')} className="px-3 py-1 bg-orange-500 text-white rounded-md font-semibold hover:bg-orange-600">
+                Merge changes
+              </button>
+              <button onClick={() => handleResolveConflict('overwrite')} className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md font-semibold hover:bg-gray-300">
+                Overwrite with mine
+              </button>
+            </div>
+          </div>
+        )}
         <div className="absolute top-0 right-0 z-[1000] p-4">
           <div className="relative">
             <button
@@ -234,19 +543,36 @@ const DesignEditorPage: React.FC<DesignEditorPageProps> = ({ project, design, on
                   onPointsChange={setDrawingPoints} 
                   onShapeComplete={handleStopDrawing}
                   onAreaChange={setDrawingArea}
+                  mode={drawingTarget === 'obstruction' ? obstructionShape : 'polygon'}
                 />
               )}
 
-              {fieldSegments.map(segment => (
+              {fieldSegments.map((segment, index) => (
                 <FieldSegmentLayer 
                   key={segment.id} 
                   segment={segment} 
                   modules={modules} 
+                  obstructions={obstructions}
+                  maxNameplate={getSegmentNameplateLimit(index)}
                   onUpdate={handleUpdateSegment}
-                  onSelect={() => setSelectedSegment(segment)}
+                  onLayoutChange={handleLayoutChange}
+                  onSelect={() => handleSelectSegment(segment)}
                   is3DView={selectedMapType.includes('3d')}
                 />
               ))}
+
+              {isEditingModules && selectedSegment && !isDrawing && (
+                <ModuleEditLayer segment={selectedSegment} onUpdate={handleUpdateSegment} />
+              )}
+
+              {obstructions.map(obstruction => (
+                <ObstructionLayer
+                  key={obstruction.id}
+                  obstruction={obstruction}
+                  isSelected={selectedObstruction?.id === obstruction.id}
+                  onSelect={() => handleSelectObstruction(obstruction)}
+                />
+              ))}
           </MapContainer>
         )}
       </div>
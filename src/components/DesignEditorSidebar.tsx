@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Design, Module, FieldSegment } from '../types/project';
-import { Plus, PanelLeftClose, PanelLeftOpen, Trash2, ArrowLeft, Send } from 'lucide-react';
+import { Design, Module, FieldSegment, Inverter, DesignTemperatures, Obstruction } from '../types/project';
+import { Plus, PanelLeftClose, PanelLeftOpen, Trash2, ArrowLeft, Send, Circle, Pentagon } from 'lucide-react';
 import DrawingControls from './DrawingControls';
 import SelectField from './SelectField';
 import FormField from './FormField';
+import StringSizingPanel from './StringSizingPanel';
+import { calculatePolygonArea, getRoofPitch } from '../utils/geometry';
+import { calculateRowPitch, DEFAULT_SHADE_FREE_START, DEFAULT_SHADE_FREE_END } from '../utils/rowSpacing';
 
 interface DesignEditorSidebarProps {
   design: Design;
@@ -11,47 +14,86 @@ interface DesignEditorSidebarProps {
   onToggle: () => void;
   isDrawing: boolean;
   onStartDrawing: () => void;
+  onStartDrawingObstruction: (shape: Obstruction['shape']) => void;
+  onStartDrawingHole: () => void;
+  drawingTarget: 'segment' | 'obstruction' | 'hole';
   onStopDrawing: () => void;
   onClearDrawing: () => void;
   drawingArea: number;
   modules: Module[];
+  inverters: Inverter[];
+  designTemperatures: DesignTemperatures;
   fieldSegments: FieldSegment[];
   selectedSegment: FieldSegment | null;
   onSelectSegment: (segment: FieldSegment | null) => void;
   onUpdateSegment: (id: string, updates: Partial<FieldSegment>) => void;
   onDeleteSegment: (id:string) => void;
+  obstructions: Obstruction[];
+  selectedObstruction: Obstruction | null;
+  onSelectObstruction: (obstruction: Obstruction | null) => void;
+  onUpdateObstruction: (id: string, updates: Partial<Obstruction>) => void;
+  onDeleteObstruction: (id: string) => void;
   isDrawingDisabled?: boolean;
+  maxNameplate?: number;
+  onUpdateMaxNameplate: (value: number | undefined) => void;
+  isEditingModules: boolean;
+  onToggleEditModules: () => void;
 }
 
-const FEET_PER_METER = 3.28084;
-
 const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({ 
   design, 
   isOpen, 
   onToggle,
   isDrawing,
   onStartDrawing,
+  onStartDrawingObstruction,
+  onStartDrawingHole,
+  drawingTarget,
   onStopDrawing,
   onClearDrawing,
   drawingArea,
   modules,
+  inverters,
+  designTemperatures,
   fieldSegments,
   selectedSegment,
   onSelectSegment,
   onUpdateSegment,
   onDeleteSegment,
+  obstructions,
+  selectedObstruction,
+  onSelectObstruction,
+  onUpdateObstruction,
+  onDeleteObstruction,
   isDrawingDisabled = false,
+  maxNameplate,
+  onUpdateMaxNameplate,
+  isEditingModules,
+  onToggleEditModules,
 }) => {
   const moduleOptions = modules.map(m => ({ value: m.id, label: `${m.manufacturer} ${m.model_name}` }));
   const orientationOptions = [{ value: 'Landscape', label: 'Landscape (Horizontal)' }, { value: 'Portrait', label: 'Portrait (Vertical)' }];
+  const layoutModeOptions = [{ value: 'single', label: 'Default orientation only' }, { value: 'optimized', label: 'Maximise module count' }];
+  const alignmentOptions = [{ value: 'left', label: 'Left' }, { value: 'center', label: 'Center' }, { value: 'right', label: 'Right' }, { value: 'justify', label: 'Justify' }];
+  const rowSpacingModeOptions = [{ value: 'manual', label: 'Manual' }, { value: 'solstice', label: 'No row shading on winter solstice' }];
+  const trimRuleOptions = [{ value: 'ridge', label: 'Drop furthest from the ridge' }, { value: 'shading', label: 'Drop most shaded' }, { value: 'rows', label: 'Keep rows complete' }];
   const rackingOptions = [{ value: 'Fixed Tilt', label: 'Fixed Tilt Racking' }, { value: 'Flush Mount', label: 'Flush Mount' }];
 
   const [editedSegment, setEditedSegment] = useState<FieldSegment | null>(null);
+  const [isEditingMaxNameplate, setIsEditingMaxNameplate] = useState(false);
 
   useEffect(() => {
     setEditedSegment(selectedSegment);
   }, [selectedSegment]);
 
+  useEffect(() => {
+    setIsEditingMaxNameplate(false);
+  }, [selectedSegment?.id]);
+
+  // An empty kWp field removes the cap
+  const parseMaxNameplate = (val: string) => (val === '' || isNaN(parseFloat(val)) ? undefined : Math.max(0, parseFloat(val)));
+  const totalNameplate = fieldSegments.reduce((sum, seg) => sum + (seg.nameplate || 0), 0);
+
   const handleFieldChange = (updates: Partial<FieldSegment>) => {
     if (editedSegment) {
       const newSegmentState = { ...editedSegment, ...updates };
@@ -60,17 +102,24 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
     }
   };
 
-  const calculateGCR = () => {
-    if (!editedSegment || !editedSegment.moduleId || !editedSegment.rowSpacing) return 0;
-    const module = modules.find(m => m.id === editedSegment.moduleId);
-    if (!module || !module.width || !module.height) return 0;
-
-    const moduleLengthInTiltDirection = editedSegment.orientation === 'Landscape' ? module.width : module.height;
-    const gcr = (moduleLengthInTiltDirection * FEET_PER_METER) / editedSegment.rowSpacing;
-    return gcr;
+  // A flush-mounted module lies in the roof plane, so a roof span/rise sets its tilt too
+  const handleSpanRiseChange = (spanRise: number) => {
+    if (!editedSegment) return;
+    const updates: Partial<FieldSegment> = { spanRise };
+    if (editedSegment.rackingType === 'Flush Mount' && spanRise > 0) {
+      updates.moduleTilt = parseFloat(getRoofPitch({ ...editedSegment, spanRise }).toFixed(1));
+    }
+    handleFieldChange(updates);
   };
 
-  const gcr = calculateGCR();
+  const selectedModule = editedSegment?.moduleId ? modules.find(m => m.id === editedSegment.moduleId) : undefined;
+  const rowPitch = editedSegment && selectedModule ? calculateRowPitch(editedSegment, selectedModule) : null;
+  const layoutOptimization = editedSegment?.layoutOptimization;
+  const holes = editedSegment?.holes || [];
+  const manualEditCount = (editedSegment?.moduleOverrides?.removed.length || 0) + (editedSegment?.moduleOverrides?.added.length || 0);
+  const isSolsticeSpacing = editedSegment?.rackingType === 'Fixed Tilt' && editedSegment.rowSpacingMode === 'solstice';
+  // The computed gap replaces the manual one only when the shade-free window is achievable
+  const isRowSpacingComputed = isSolsticeSpacing && !!rowPitch?.isAchievable;
 
   if (!isOpen) {
     return (
@@ -89,11 +138,44 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
           area={drawingArea}
           onBack={onStopDrawing}
           onClear={onClearDrawing}
+          target={drawingTarget}
         />
       </aside>
     );
   }
 
+  if (selectedObstruction) {
+    return (
+      <aside className="w-96 bg-white border-r shadow-lg flex flex-col h-screen text-sm">
+        <div className="p-4 border-b flex-shrink-0">
+          <div className="flex justify-between items-center mb-2">
+            <button onClick={() => onSelectObstruction(null)} className="text-sm text-blue-600 hover:underline flex items-center space-x-1">
+              <ArrowLeft size={14} />
+              <span>back to list</span>
+            </button>
+            <button onClick={() => onDeleteObstruction(selectedObstruction.id)} className="p-2 text-gray-500 hover:text-red-600 rounded-md" title="Delete Obstruction">
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <h2 className="text-lg font-bold text-gray-800">Obstruction {selectedObstruction.description || ''}</h2>
+          <p className="text-gray-600">{selectedObstruction.shape === 'circle' ? 'Circle' : 'Polygon'}</p>
+        </div>
+        <div className="flex-grow p-4 overflow-y-auto space-y-4">
+          <FormField label="Description" id="obs-desc" value={selectedObstruction.description || ''} onChange={val => onUpdateObstruction(selectedObstruction.id, { description: val })} />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField label="Height (ft)" id="obs-height" type="number" value={selectedObstruction.height} min={0} step={0.1} onChange={val => onUpdateObstruction(selectedObstruction.id, { height: parseFloat(val) || 0 })} />
+            <FormField label="Base Height (ft)" id="obs-base" type="number" value={selectedObstruction.baseHeight} min={0} step={0.1} onChange={val => onUpdateObstruction(selectedObstruction.id, { baseHeight: parseFloat(val) || 0 })} />
+            <FormField label="Keepout Buffer (ft)" id="obs-buffer" type="number" value={selectedObstruction.buffer} min={0} step={0.1} onChange={val => onUpdateObstruction(selectedObstruction.id, { buffer: parseFloat(val) || 0 })} />
+            {selectedObstruction.shape === 'circle' && (
+              <FormField label="Radius (ft)" id="obs-radius" type="number" value={selectedObstruction.radius || 0} min={0} step={0.1} onChange={val => onUpdateObstruction(selectedObstruction.id, { radius: parseFloat(val) || 0 })} />
+            )}
+          </div>
+          <p className="text-xs text-gray-500">Height is measured from the base, which defaults to the roof the obstruction was drawn on.</p>
+        </div>
+      </aside>
+    );
+  }
+
   if (selectedSegment && editedSegment) {
     return (
       <aside className="w-96 bg-white border-r shadow-lg flex flex-col h-screen text-sm">
@@ -113,8 +195,35 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
             </div>
           </div>
           <h2 className="text-lg font-bold text-gray-800">Field Segment {editedSegment.description || ''}</h2>
-          <p className="text-gray-600">Modules: {selectedSegment.moduleCount} ({selectedSegment.nameplate.toFixed(2)} kW) <a href="#" className="text-blue-600">(set max kWp)</a></p>
+          <p className="text-gray-600">Modules: {selectedSegment.moduleCount} ({selectedSegment.nameplate.toFixed(2)} kW) <button onClick={() => setIsEditingMaxNameplate(!isEditingMaxNameplate)} className="text-blue-600 hover:underline">
+              {editedSegment.maxNameplate !== undefined ? `(max ${editedSegment.maxNameplate} kWp)` : '(set max kWp)'}
+            </button>
+          </p>
+          {isEditingMaxNameplate && (
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              <FormField label="Max kWp" id="seg-max-kwp" type="number" min={0} step={0.1} placeholder="No limit" value={editedSegment.maxNameplate ?? ''} onChange={val => handleFieldChange({ maxNameplate: parseMaxNameplate(val) })} />
+              <SelectField label="When over the limit" id="seg-trim-rule" value={editedSegment.nameplateTrimRule || 'ridge'} onChange={val => handleFieldChange({ nameplateTrimRule: val as FieldSegment['nameplateTrimRule'] })} options={trimRuleOptions} />
+            </div>
+          )}
           <p className="text-gray-600">Area: {selectedSegment.area.toFixed(1)} ft²</p>
+          <div className="mt-2 flex items-center space-x-3">
+            <button
+              onClick={onToggleEditModules}
+              disabled={isDrawingDisabled}
+              className={`px-3 py-1 rounded-md text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed ${isEditingModules ? 'bg-orange-500 text-white hover:bg-orange-600' : 'bg-gray-200 text-gray-800 hover:bg-gray-300'}`}
+              title={isDrawingDisabled ? "Switch to a 2D map to edit modules" : "Delete, add and move individual modules"}
+            >
+              {isEditingModules ? 'Done Editing Modules' : 'Edit Modules'}
+            </button>
+            {manualEditCount > 0 && (
+              <button onClick={() => handleFieldChange({ moduleOverrides: undefined })} className="text-xs text-blue-600 hover:underline">
+                Reset {manualEditCount} manual edit{manualEditCount === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
+          {isEditingModules && (
+            <p className="text-xs text-gray-500 mt-1">Click a module to delete it or empty roof to add one. Drag a box to select modules, then drag one of them to move the group.</p>
+          )}
         </div>
         <div className="flex-grow p-4 overflow-y-auto space-y-4">
           <FormField label="Description" id="seg-desc" value={editedSegment.description || ''} onChange={val => handleFieldChange({ description: val })} />
@@ -155,22 +264,94 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
             <h4 className="font-semibold mb-2 text-gray-700">Automatic Layout Rules</h4>
             <div className="grid grid-cols-3 gap-2 items-center mb-2">
               <label className="text-gray-600">Frame Size</label>
-              <FormField id="frame-up" type="number" label="" value={editedSegment.frameSizeUp || 1} onChange={v => handleFieldChange({ frameSizeUp: parseFloat(v) })} />
-              <FormField id="frame-wide" type="number" label="" value={editedSegment.frameSizeWide || 1} onChange={v => handleFieldChange({ frameSizeWide: parseFloat(v) })} />
+              <FormField id="frame-up" type="number" label="" min={1} step={1} value={editedSegment.frameSizeUp || 1} onChange={v => handleFieldChange({ frameSizeUp: parseFloat(v) })} />
+              <FormField id="frame-wide" type="number" label="" min={1} step={1} value={editedSegment.frameSizeWide || 1} onChange={v => handleFieldChange({ frameSizeWide: parseFloat(v) })} />
             </div>
             <SelectField label="Default Orientation" id="seg-orientation" value={editedSegment.orientation || ''} onChange={val => handleFieldChange({ orientation: val as any })} options={orientationOptions} />
+            <SelectField label="Layout Fill" id="seg-layout-mode" value={editedSegment.layoutMode || 'single'} onChange={val => handleFieldChange({ layoutMode: val as FieldSegment['layoutMode'] })} options={layoutModeOptions} />
+            {editedSegment.layoutMode === 'optimized' && layoutOptimization && (
+              <p className="text-xs text-gray-600 -mt-2 mb-4">
+                Best fill: {layoutOptimization.strategy} rows, first row {layoutOptimization.rowOffset.toFixed(1)} ft in.
+                {' '}{layoutOptimization.count} modules vs {layoutOptimization.singleOrientationCount} with {editedSegment.orientation || 'Portrait'} only
+                {' '}(+{layoutOptimization.count - layoutOptimization.singleOrientationCount}).
+              </p>
+            )}
+            <SelectField label="Row Alignment" id="seg-alignment" value={editedSegment.alignment || 'center'} onChange={val => handleFieldChange({ alignment: val as FieldSegment['alignment'] })} options={alignmentOptions} />
+            {editedSegment.rackingType === 'Fixed Tilt' && (
+              <>
+                <SelectField
+                  label="Row Spacing Rule"
+                  id="seg-row-spacing-mode"
+                  value={editedSegment.rowSpacingMode || 'manual'}
+                  onChange={val => handleFieldChange({ rowSpacingMode: val as FieldSegment['rowSpacingMode'] })}
+                  options={rowSpacingModeOptions}
+                />
+                {isSolsticeSpacing && (
+                  <div className="mb-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField label="Shade-free from (h)" id="seg-shade-start" type="number" min={0} max={24} step={0.5} value={editedSegment.shadeFreeStart ?? DEFAULT_SHADE_FREE_START} onChange={val => handleFieldChange({ shadeFreeStart: parseFloat(val) })} />
+                      <FormField label="Shade-free until (h)" id="seg-shade-end" type="number" min={0} max={24} step={0.5} value={editedSegment.shadeFreeEnd ?? DEFAULT_SHADE_FREE_END} onChange={val => handleFieldChange({ shadeFreeEnd: parseFloat(val) })} />
+                    </div>
+                    {rowPitch && (rowPitch.isAchievable ? (
+                      <p className="text-xs text-gray-600">Row pitch {rowPitch.pitch.toFixed(2)} ft (solar time on the winter solstice), GCR {rowPitch.gcr.toFixed(2)}</p>
+                    ) : (
+                      <p className="text-xs text-red-600">The sun is below the horizon during this window on the winter solstice; using the manual row spacing.</p>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
             <div className="grid grid-cols-2 gap-4">
-              <FormField label="Row Spacing (ft)" id="seg-row-spacing" type="number" value={editedSegment.rowSpacing || 0} onChange={val => handleFieldChange({ rowSpacing: parseFloat(val) })} />
-              <FormField label="Span / rise" id="span-rise" type="number" value={editedSegment.spanRise || 0} onChange={val => handleFieldChange({ spanRise: parseFloat(val) })} />
+              <FormField
+                label="Row Spacing (ft)"
+                id="seg-row-spacing"
+                type="number"
+                value={isRowSpacingComputed && rowPitch ? parseFloat(rowPitch.rowSpacing.toFixed(2)) : editedSegment.rowSpacing || 0}
+                onChange={val => handleFieldChange({ rowSpacing: parseFloat(val) })}
+                disabled={isRowSpacingComputed}
+              />
+              <FormField label="Span / rise" id="span-rise" type="number" value={editedSegment.spanRise || 0} onChange={val => handleSpanRiseChange(parseFloat(val))} />
               <FormField label="Module Spacing (ft)" id="seg-module-spacing" type="number" value={editedSegment.moduleSpacing || 0} step={0.01} onChange={val => handleFieldChange({ moduleSpacing: parseFloat(val) })} />
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">GCR</label>
-                <input type="text" readOnly value={gcr.toFixed(2)} className="w-full p-3 border rounded-lg bg-gray-100" />
+                <input type="text" readOnly value={(rowPitch?.gcr || 0).toFixed(2)} className="w-full p-3 border rounded-lg bg-gray-100" />
               </div>
               <FormField label="Frame Spacing (ft)" id="frame-spacing" type="number" value={editedSegment.frameSpacing || 0} onChange={val => handleFieldChange({ frameSpacing: parseFloat(val) })} />
             </div>
             <FormField label="Setback (ft)" id="setback" type="number" value={editedSegment.setback || 0} onChange={val => handleFieldChange({ setback: parseFloat(val) })} />
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-medium text-gray-700">Holes</span>
+              <button
+                onClick={onStartDrawingHole}
+                disabled={isDrawingDisabled}
+                className="text-blue-600 text-xs hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isDrawingDisabled ? "Switch to a 2D map to add a hole" : "Outline a courtyard, light well or pond to keep free of modules"}
+              >
+                + Add Hole
+              </button>
+            </div>
+            {holes.map((hole, i) => (
+              <div key={i} className="flex justify-between items-center text-gray-600">
+                <span>Hole {i + 1} ({calculatePolygonArea(hole).toFixed(1)} ft²)</span>
+                <button onClick={() => handleFieldChange({ holes: holes.filter((_, j) => j !== i) })} className="p-1 text-gray-500 hover:text-red-600 rounded-md" title="Remove Hole">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            {holes.length > 0 && (
+              <FormField label="Hole Setback (ft)" id="hole-setback" type="number" min={0} value={editedSegment.holeSetback ?? editedSegment.setback ?? 0} onChange={val => handleFieldChange({ holeSetback: parseFloat(val) || 0 })} />
+            )}
           </div>
+
+          {selectedModule && (
+            <StringSizingPanel
+              segment={editedSegment}
+              module={selectedModule}
+              inverters={inverters}
+              designTemperatures={designTemperatures}
+              onChange={handleFieldChange}
+            />
+          )}
         </div>
       </aside>
     );
@@ -185,6 +366,12 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
         </div>
       </div>
       <div className="flex-grow p-4 overflow-y-auto space-y-4">
+        <div>
+          <FormField label="Max DC Size (kWp)" id="design-max-kwp" type="number" min={0} step={0.1} placeholder="No limit" value={maxNameplate ?? ''} onChange={val => onUpdateMaxNameplate(parseMaxNameplate(val))} />
+          <p className="text-xs text-gray-500 -mt-2">
+            {totalNameplate.toFixed(2)} kWp placed. Segments higher in the list are filled first; each drops modules by its own rule.
+          </p>
+        </div>
         <div className="flex justify-between items-center">
           <h3 className="font-semibold text-gray-800">Field Segments</h3>
           <button 
@@ -214,6 +401,47 @@ const DesignEditorSidebar: React.FC<DesignEditorSidebarProps> = ({
             ))
           )}
         </div>
+
+        <div className="flex justify-between items-center pt-2">
+          <h3 className="font-semibold text-gray-800">Obstructions</h3>
+          <div className="flex space-x-1">
+            <button
+              onClick={() => onStartDrawingObstruction('polygon')}
+              className="px-2 py-1 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isDrawingDisabled}
+              title={isDrawingDisabled ? "Switch to a 2D map to add an obstruction" : "Draw a polygon obstruction"}
+            >
+              <Pentagon className="w-4 h-4" />
+              <span>Polygon</span>
+            </button>
+            <button
+              onClick={() => onStartDrawingObstruction('circle')}
+              className="px-2 py-1 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isDrawingDisabled}
+              title={isDrawingDisabled ? "Switch to a 2D map to add an obstruction" : "Draw a circular obstruction"}
+            >
+              <Circle className="w-4 h-4" />
+              <span>Circle</span>
+            </button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {obstructions.length === 0 ? (
+            <div className="text-center p-6 text-gray-500 border-2 border-dashed rounded-lg">No obstructions created.</div>
+          ) : (
+            obstructions.map((obstruction) => (
+              <div key={obstruction.id} onClick={() => onSelectObstruction(obstruction)} className="border rounded-lg p-3 bg-white hover:bg-gray-50 cursor-pointer">
+                <div className="flex justify-between items-center">
+                  <h4 className="font-semibold text-gray-800">{obstruction.description || `Obstruction ${obstruction.id.substring(0,4)}`}</h4>
+                  <button onClick={(e) => { e.stopPropagation(); onDeleteObstruction(obstruction.id); }} className="p-1 text-gray-400 hover:text-red-600"><Trash2 size={16} /></button>
+                </div>
+                <div className="text-sm text-gray-600 mt-1">
+                  {obstruction.height.toFixed(1)} ft tall, {obstruction.buffer.toFixed(1)} ft keepout
+                </div>
+              </div>
+            ))
+          )}
+        </div>
       </div>
     </aside>
   );
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, GitCompare, Save } from 'lucide-react';
+import { Design, DesignSnapshot } from '../types/project';
+import { compareSnapshots, fetchDesignSnapshots, getSegmentName, saveDesignSnapshot } from '../utils/designSnapshots';
+
+interface DesignSnapshotsPanelProps {
+  design: Design;
+  onRestore: (design: Design, snapshot: DesignSnapshot) => Promise<void>;
+}
+
+const CURRENT_ID = 'current';
+
+const formatChange = (change: number, digits = 0) => `${change > 0 ? '+' : ''}${change.toFixed(digits)}`;
+
+const DesignSnapshotsPanel: React.FC<DesignSnapshotsPanelProps> = ({ design, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<DesignSnapshot[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    fetchDesignSnapshots(design.id).then(setSnapshots);
+  }, [design.id, design.lastModified]);
+
+  // The design as it is now can be compared like any snapshot
+  const current: DesignSnapshot = {
+    id: CURRENT_ID,
+    designId: design.id,
+    name: 'Current design',
+    createdAt: design.lastModified,
+    isAutomatic: false,
+    fieldSegments: design.field_segments || [],
+  };
+
+  const handleSave = async () => {
+    if (!snapshotName.trim()) return;
+    setIsBusy(true);
+    const snapshot = await saveDesignSnapshot(design.id, snapshotName.trim(), design.field_segments || []);
+    setIsBusy(false);
+    if (!snapshot) {
+      alert('Failed to save snapshot.');
+      return;
+    }
+    setSnapshots(prev => [snapshot, ...prev]);
+    setSnapshotName('');
+  };
+
+  const handleRestore = async (snapshot: DesignSnapshot) => {
+    if (!window.confirm(`Restore "${snapshot.name}"? The current field segments are kept as an automatic snapshot.`)) return;
+    setIsBusy(true);
+    await onRestore(design, snapshot);
+    setIsBusy(false);
+    setCompareIds([]);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev.slice(-1), id]);
+  };
+
+  const selected = [current, ...snapshots]
+    .filter(snapshot => compareIds.includes(snapshot.id))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const comparison = selected.length === 2 ? compareSnapshots(selected[0].fieldSegments, selected[1].fieldSegments) : null;
+
+  return (
+    <div className="mt-4 bg-gray-50 border rounded-lg p-4 space-y-4 text-sm">
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={e => setSnapshotName(e.target.value)}
+          placeholder="Snapshot name, e.g. Proposal sent to customer"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isBusy || !snapshotName.trim()}
+          className="bg-cyan-500 text-white px-3 py-1.5 rounded-md hover:bg-cyan-600 transition-colors flex items-center space-x-1 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Snapshot</span>
+        </button>
+      </div>
+
+      <div className="divide-y border rounded-md bg-white">
+        {[current, ...snapshots].map(snapshot => (
+          <div key={snapshot.id} className="flex items-center px-3 py-2 space-x-3">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(snapshot.id)}
+              onChange={() => toggleCompare(snapshot.id)}
+              title="Select two versions to compare"
+            />
+            <div className="flex-1">
+              <span className="font-medium text-gray-900">{snapshot.name}</span>
+              {snapshot.isAutomatic && <span className="ml-2 text-xs text-gray-500">(automatic)</span>}
+            </div>
+            <div className="text-gray-600">{snapshot.createdAt.toLocaleString()}</div>
+            <div className="text-gray-600 w-24 text-right">{snapshot.fieldSegments.length} segment{snapshot.fieldSegments.length === 1 ? '' : 's'}</div>
+            <div className="w-6">
+              {snapshot.id !== CURRENT_ID && (
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={isBusy}
+                  className="p-1 text-cyan-600 hover:text-cyan-800 disabled:opacity-50"
+                  title="Restore Snapshot"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {snapshots.length === 0 && <p className="text-gray-500">No snapshots yet.</p>}
+
+      {comparison ? (
+        <div className="bg-white border rounded-md p-3 space-y-2">
+          <h4 className="font-medium text-gray-900 flex items-center">
+            <GitCompare className="w-4 h-4 mr-2 text-cyan-500" />
+            {selected[0].name} → {selected[1].name}
+          </h4>
+          <div className="grid grid-cols-2 gap-2 text-gray-700">
+            <div>
+              Modules: {comparison.moduleCount.before} → {comparison.moduleCount.after}
+              {' '}({formatChange(comparison.moduleCount.after - comparison.moduleCount.before)})
+            </div>
+            <div>
+              Nameplate: {comparison.nameplate.before.toFixed(2)} → {comparison.nameplate.after.toFixed(2)} kWp
+              {' '}({formatChange(comparison.nameplate.after - comparison.nameplate.before, 2)})
+            </div>
+          </div>
+          {comparison.added.map(segment => (
+            <div key={segment.id} className="text-green-700">
+              + {getSegmentName(segment, selected[1].fieldSegments.indexOf(segment))} added ({segment.moduleCount} modules)
+            </div>
+          ))}
+          {comparison.removed.map(segment => (
+            <div key={segment.id} className="text-red-700">
+              − {getSegmentName(segment, selected[0].fieldSegments.indexOf(segment))} removed ({segment.moduleCount} modules)
+            </div>
+          ))}
+          {comparison.changed.map(change => (
+            <div key={change.id} className="text-orange-700">
+              ~ {change.name} changed
+              {change.fields.length > 0 && `: ${change.fields.join(', ')}`}
+              {change.moduleCountChange !== 0 && ` (${formatChange(change.moduleCountChange)} modules)`}
+            </div>
+          ))}
+          {comparison.added.length + comparison.removed.length + comparison.changed.length === 0 && (
+            <div className="text-gray-500">No differences in the field segments.</div>
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-500">Tick two versions to compare them.</p>
+      )}
+    </div>
+  );
+};
+
+export default DesignSnapshotsPanel;
@@ -5,14 +5,23 @@ interface DrawingControlsProps {
   area: number;
   onBack: () => void;
   onClear: () => void;
+  target?: 'segment' | 'obstruction' | 'hole';
 }
 
-const DrawingControls: React.FC<DrawingControlsProps> = ({ area, onBack, onClear }) => {
+const DrawingControls: React.FC<DrawingControlsProps> = ({ area, onBack, onClear, target = 'segment' }) => {
+  const isObstruction = target === 'obstruction';
+  const isHole = target === 'hole';
+  const title = isObstruction ? 'Create New Obstruction' : isHole ? 'Add Hole to Field Segment' : 'Create New Field Segment';
+
   return (
     <div className="p-4 h-full flex flex-col bg-white">
-      <h3 className="text-lg font-semibold text-gray-800 mb-2">Create New Field Segment</h3>
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">{title}</h3>
       <p className="text-sm text-gray-600 mb-4">
-        Click on the map to create a field segment. A field segment is a valid area to place modules.
+        {isObstruction
+          ? 'Click on the map to outline a vent, chimney, HVAC unit or skylight. For a circle, click its centre and then its edge. Modules are kept clear of obstructions.'
+          : isHole
+            ? 'Click on the map to outline a courtyard, light well or pond inside the selected field segment. No modules are placed inside a hole.'
+            : 'Click on the map to create a field segment. A field segment is a valid area to place modules.'}
       </p>
       <div className="flex space-x-2 mb-4">
         <button
@@ -38,14 +47,18 @@ const DrawingControls: React.FC<DrawingControlsProps> = ({ area, onBack, onClear
           <span className="text-gray-600">Area:</span>
           <span className="font-medium text-gray-800">{area.toFixed(2)} ft²</span>
         </div>
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-600">Modules:</span>
-          <span className="font-medium text-gray-800">0</span>
-        </div>
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-600">Nameplate:</span>
-          <span className="font-medium text-gray-800">0</span>
-        </div>
+        {target === 'segment' && (
+          <>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Modules:</span>
+              <span className="font-medium text-gray-800">0</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Nameplate:</span>
+              <span className="font-medium text-gray-800">0</span>
+            </div>
+          </>
+        )}
       </div>
       <div className="mt-auto bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded">
         <p className="text-sm text-yellow-800">
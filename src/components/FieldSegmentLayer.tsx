@@ -1,24 +1,39 @@
-import React, { useEffect, useState } from 'react';
-import { useMap, Polygon, Marker } from 'react-leaflet';
-import { FieldSegment, Module } from '../types/project';
-import { calculatePolygonArea, calculateAdvancedModuleLayout, calculateDistanceInFeet, getMidpoint, calculateInsetPolygon, isPointInPolygon } from '../utils/geometry';
-import { divIcon, LeafletEvent, LatLngTuple, Point, latLng } from 'leaflet';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useMap, Polygon, Polyline, Marker, Tooltip } from 'react-leaflet';
+import { FieldSegment, Module, Obstruction } from '../types/project';
+import { calculateSegmentArea, calculateAdvancedModuleLayout, calculateDistanceInFeet, getMidpoint, calculateInsetPolygons, isPointInPolygon } from '../utils/geometry';
+import { divIcon, LeafletEvent, LatLng, LatLngTuple, Point, latLng } from 'leaflet';
+import { assignModuleStrings, getModuleCentroid } from '../utils/stringing';
+import { getModuleTsrf } from '../utils/nameplateLimit';
 
 interface FieldSegmentLayerProps {
   segment: FieldSegment;
   modules: Module[];
-  onUpdate: (id: string, updates: Partial<FieldSegment>) => void;
+  obstructions?: Obstruction[];
+  maxNameplate?: number; // kWp left for this segment under the segment and design caps
+  onUpdate: (id: string, updates: Partial<FieldSegment>, groupId?: string) => void; // Designer edits
+  onLayoutChange: (id: string, updates: Partial<FieldSegment>) => void; // Results derived from the segment
   onSelect: () => void;
   is3DView?: boolean;
 }
 
-const DraggableMarker: React.FC<{ position: any, onDrag: any }> = ({ position, onDrag }) => {
+// Red at 50% TSRF or below through yellow to green at 100%.
+const getTsrfColor = (tsrf: number) => `hsl(${Math.round(Math.max(0, Math.min(1, (tsrf - 0.5) / 0.5)) * 120)}, 85%, 45%)`;
+
+const HEAT_MAP_TOLERANCE = 0.01; // meters a module may be from its analysed centre; any real move makes the results stale
+
+const STRING_COLORS = ['#f43f5e', '#22c55e', '#eab308', '#a855f7', '#06b6d4', '#f97316', '#ec4899', '#84cc16'];
+
+// Every drag event of one drag carries the same id so the whole drag is a single undo step.
+const DraggableMarker: React.FC<{ position: LatLngTuple, onDrag: (latLng: LatLng, dragId: string) => void }> = ({ position, onDrag }) => {
+  const dragId = useRef('');
   return (
     <Marker
       position={position}
       draggable={true}
       eventHandlers={{
-        drag: (e: LeafletEvent) => onDrag(e.target.getLatLng()),
+        dragstart: () => { dragId.current = `drag-${Date.now()}-${Math.random()}`; },
+        drag: (e: LeafletEvent) => onDrag(e.target.getLatLng(), dragId.current),
       }}
       icon={divIcon({
         className: 'bg-orange-500 border-2 border-white rounded-full shadow-lg',
@@ -28,43 +43,56 @@ const DraggableMarker: React.FC<{ position: any, onDrag: any }> = ({ position, o
   );
 };
 
-const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules, onUpdate, onSelect, is3DView = false }) => {
+const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules, obstructions = [], maxNameplate, onUpdate, onLayoutChange, onSelect, is3DView = false }) => {
   const map = useMap();
-  const [insetPolygon, setInsetPolygon] = useState<LatLngTuple[]>([]);
+  // Buildable rings inside the setbacks; null when the segment has none
+  const [insetRings, setInsetRings] = useState<LatLngTuple[][] | null>(null);
+  const holes = segment.holes || [];
+  // The parent passes a new callback every render; keeping it out of the deps stops every render from re-running the layout
+  const onLayoutChangeRef = useRef(onLayoutChange);
+  onLayoutChangeRef.current = onLayoutChange;
 
   useEffect(() => {
-    const area = calculatePolygonArea(segment.points, map);
+    const onLayoutChange = onLayoutChangeRef.current;
+    const area = calculateSegmentArea(segment);
     const module = modules.find(m => m.id === segment.moduleId);
 
     if (module) {
-      const { layout, count, nameplate, azimuth } = calculateAdvancedModuleLayout(segment, module, map);
-      onUpdate(segment.id, { area, moduleLayout: layout, moduleCount: count, nameplate, azimuth });
+      const { layout, count, nameplate, azimuth, optimization } = calculateAdvancedModuleLayout(segment, module, obstructions, maxNameplate);
+      const moduleStrings = segment.inverterId ? assignModuleStrings(layout, azimuth, segment.modulesPerString || 0) : [];
+      onLayoutChange(segment.id, { area, moduleLayout: layout, moduleStrings, moduleCount: count, nameplate, azimuth, layoutOptimization: optimization });
     } else if (segment.moduleCount > 0 || segment.moduleLayout?.length) {
-      onUpdate(segment.id, { area, moduleLayout: [], moduleCount: 0, nameplate: 0 });
+      onLayoutChange(segment.id, { area, moduleLayout: [], moduleStrings: [], moduleCount: 0, nameplate: 0 });
     } else {
       if (Math.abs(area - segment.area) > 0.1) {
-        onUpdate(segment.id, { area });
+        onLayoutChange(segment.id, { area });
       }
     }
-  }, [segment, modules, map, onUpdate]);
+  }, [segment, modules, obstructions, maxNameplate]);
 
   useEffect(() => {
-    if (segment.setback && segment.setback > 0 && segment.points.length > 2) {
-      const inset = calculateInsetPolygon(segment.points, segment.setback, map);
-      setInsetPolygon(inset);
+    const setback = segment.setback || 0;
+    const holeSetback = segment.holes?.length ? segment.holeSetback ?? setback : 0;
+    if ((setback > 0 || holeSetback > 0) && segment.points.length > 2) {
+      setInsetRings(calculateInsetPolygons(segment.points, setback, segment.holes, holeSetback));
     } else {
-      setInsetPolygon([]);
+      setInsetRings(null);
     }
-  }, [segment.points, segment.setback, map]);
+  }, [segment.points, segment.holes, segment.setback, segment.holeSetback]);
 
-  const handleMarkerDrag = (index: number, newLatLng: { lat: number, lng: number }) => {
+  const handleMarkerDrag = (index: number, newLatLng: LatLng, dragId: string) => {
     const newPoints = [...segment.points];
     newPoints[index] = [newLatLng.lat, newLatLng.lng];
-    onUpdate(segment.id, { points: newPoints });
+    onUpdate(segment.id, { points: newPoints }, dragId);
+  };
+
+  const handleHoleMarkerDrag = (holeIndex: number, index: number, newLatLng: LatLng, dragId: string) => {
+    const newHoles = holes.map((hole, i) => i === holeIndex ? hole.map((p, j) => j === index ? [newLatLng.lat, newLatLng.lng] as LatLngTuple : p) : hole);
+    onUpdate(segment.id, { holes: newHoles }, dragId);
   };
 
   const renderLengthMarker = (p1: LatLngTuple, p2: LatLngTuple, polygonPoints: LatLngTuple[]) => {
-    const length = calculateDistanceInFeet(p1, p2, map);
+    const length = calculateDistanceInFeet(p1, p2);
     const midpointLatLng = getMidpoint(p1, p2);
 
     const p1_container = map.latLngToContainerPoint(p1);
@@ -106,6 +134,14 @@ const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules,
     return <Marker key={`height-${position.toString()}`} position={position} icon={icon} />;
   };
 
+  // Results go stale when the layout changes; only show them while every module matches an analysed centre.
+  const { moduleLayout, shading } = segment;
+  const moduleTsrf = useMemo(
+    () => shading && moduleLayout?.length ? getModuleTsrf(moduleLayout, shading, HEAT_MAP_TOLERANCE) : null,
+    [moduleLayout, shading]
+  );
+  const hasShadingHeatMap = !!moduleTsrf && moduleTsrf.every(tsrf => tsrf >= 0);
+
   // Calculate building outline color based on surface height
   const getBuildingColor = () => {
     const height = segment.surfaceHeight || 0;
@@ -121,7 +157,7 @@ const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules,
     <>
       {/* Building base outline */}
       <Polygon 
-        positions={segment.points} 
+        positions={[segment.points, ...holes]} 
         pathOptions={{ color: getBuildingColor(), weight: 3, fill: false, dashArray: is3DView ? '5, 5' : undefined }} 
         eventHandlers={{ click: onSelect }}
       />
@@ -164,10 +200,10 @@ const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules,
       {/* Rooftop surface (elevated) */}
       {segment.surfaceHeight && segment.surfaceHeight > 0 && (
         <Polygon
-          positions={segment.points.map(p => [
+          positions={[segment.points, ...holes].map(ring => ring.map(p => [
             p[0] - (segment.surfaceHeight || 0) * 0.00001,
             p[1] - (segment.surfaceHeight || 0) * 0.00001
-          ] as LatLngTuple)}
+          ] as LatLngTuple))}
           pathOptions={{
             color: '#fbbf24',
             weight: 2,
@@ -178,34 +214,30 @@ const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules,
         />
       )}
 
-      {/* Buildable area on rooftop */}
-      <Polygon
-        positions={(insetPolygon.length > 0 ? insetPolygon : segment.points).map(p => [
-          p[0] - (segment.surfaceHeight || 0) * 0.00001,
-          p[1] - (segment.surfaceHeight || 0) * 0.00001
-        ] as LatLngTuple)}
-        pathOptions={{ color: 'transparent', weight: 0, fillColor: '#f97316', fillOpacity: 0.3 }}
-        eventHandlers={{ click: onSelect }}
-      />
+      {/* Buildable area on rooftop, possibly split into several pieces by the setback (rings fill even-odd) */}
+      {(!insetRings || insetRings.length > 0) && (
+        <Polygon
+          positions={(insetRings || [segment.points, ...holes]).map(ring => ring.map(p => [
+            p[0] - (segment.surfaceHeight || 0) * 0.00001,
+            p[1] - (segment.surfaceHeight || 0) * 0.00001
+          ] as LatLngTuple))}
+          pathOptions={{ color: 'transparent', weight: 0, fillColor: '#f97316', fillOpacity: 0.3 }}
+          eventHandlers={{ click: onSelect }}
+        />
+      )}
 
-      {/* Green setback area (donut shape) if setback is defined */}
-      {insetPolygon.length > 0 && (
+      {/* Green setback area (the outline with holes and every buildable piece cut out) if setback is defined */}
+      {insetRings && (
         <Polygon 
-          positions={[
-            segment.points.map(p => [
-              p[0] - (segment.surfaceHeight || 0) * 0.00001,
-              p[1] - (segment.surfaceHeight || 0) * 0.00001
-            ] as LatLngTuple),
-            insetPolygon.map(p => [
-              p[0] - (segment.surfaceHeight || 0) * 0.00001,
-              p[1] - (segment.surfaceHeight || 0) * 0.00001
-            ] as LatLngTuple)
-          ]}
+          positions={[segment.points, ...holes, ...insetRings].map(ring => ring.map(p => [
+            p[0] - (segment.surfaceHeight || 0) * 0.00001,
+            p[1] - (segment.surfaceHeight || 0) * 0.00001
+          ] as LatLngTuple))}
           pathOptions={{ color: 'transparent', weight: 0, fillColor: '#a7f3d0', fillOpacity: 0.5 }}
         />
       )}
 
-      {/* Render the blue module polygons on top */}
+      {/* Render the module polygons on top, as a TSRF heat map once shading has been analyzed */}
       {segment.moduleLayout?.map((modulePolygon, i) => (
         <Polygon 
           key={i} 
@@ -213,18 +245,49 @@ const FieldSegmentLayer: React.FC<FieldSegmentLayerProps> = ({ segment, modules,
             p[0] - (segment.surfaceHeight || 0) * 0.00001,
             p[1] - (segment.surfaceHeight || 0) * 0.00001
           ] as LatLngTuple)} 
-          pathOptions={{ color: 'white', weight: 1, fillColor: '#3b82f6', fillOpacity: 0.9 }} 
-        />
+          pathOptions={{ color: 'white', weight: 1, fillColor: hasShadingHeatMap ? getTsrfColor(moduleTsrf![i]) : '#3b82f6', fillOpacity: 0.9 }} 
+        >
+          {hasShadingHeatMap && <Tooltip>TSRF {(moduleTsrf![i] * 100).toFixed(0)}%</Tooltip>}
+        </Polygon>
       ))}
       
+      {/* String paths through module centroids */}
+      {segment.moduleLayout && segment.moduleStrings?.map((moduleIndices, stringIndex) => {
+        const path = moduleIndices
+          .filter(i => segment.moduleLayout![i])
+          .map(i => getModuleCentroid(segment.moduleLayout![i]))
+          .map(p => [
+            p[0] - (segment.surfaceHeight || 0) * 0.00001,
+            p[1] - (segment.surfaceHeight || 0) * 0.00001
+          ] as LatLngTuple);
+        if (path.length === 0) return null;
+        const color = STRING_COLORS[stringIndex % STRING_COLORS.length];
+        return (
+          <React.Fragment key={`string-${stringIndex}`}>
+            <Polyline positions={path} pathOptions={{ color, weight: 3, opacity: 0.9 }} />
+            <Marker
+              position={path[0]}
+              interactive={false}
+              icon={divIcon({
+                className: 'leaflet-div-icon-transparent',
+                html: `<div class="text-white text-xs font-bold px-1 rounded" style="background-color: ${color};">S${stringIndex + 1}</div>`
+              })}
+            />
+          </React.Fragment>
+        );
+      })}
+
       {/* Draggable vertices and length markers */}
       {segment.points.map((p, i) => (
-        <DraggableMarker key={i} position={p} onDrag={(newLatLng: any) => handleMarkerDrag(i, newLatLng)} />
+        <DraggableMarker key={i} position={p} onDrag={(newLatLng, dragId) => handleMarkerDrag(i, newLatLng, dragId)} />
       ))}
       {segment.points.map((p1, i) => {
         const p2 = segment.points[(i + 1) % segment.points.length];
         return renderLengthMarker(p1, p2, segment.points);
       })}
+      {holes.map((hole, holeIndex) => hole.map((p, i) => (
+        <DraggableMarker key={`hole-${holeIndex}-${i}`} position={p} onDrag={(newLatLng, dragId) => handleHoleMarkerDrag(holeIndex, i, newLatLng, dragId)} />
+      )))}
       
       {/* Height markers for 3D visualization */}
       {is3DView && segment.surfaceHeight && segment.surfaceHeight > 0 && (
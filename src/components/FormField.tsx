@@ -13,6 +13,7 @@ interface FormFieldProps {
   min?: number;
   max?: number;
   step?: number;
+  disabled?: boolean;
 }
 
 const FormField: React.FC<FormFieldProps> = ({
@@ -27,7 +28,8 @@ const FormField: React.FC<FormFieldProps> = ({
   maxLength,
   min,
   max,
-  step
+  step,
+  disabled = false
 }) => {
   return (
     <div className="mb-4">
@@ -45,7 +47,8 @@ const FormField: React.FC<FormFieldProps> = ({
         min={min}
         max={max}
         step={step}
-        className={`w-full p-3 border rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-orange-500 ${
+        disabled={disabled}
+        className={`w-full p-3 border rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-orange-500 disabled:bg-gray-100 ${
           error 
             ? 'border-red-500 bg-red-50' 
             : 'border-gray-300 focus:border-orange-500'
@@ -0,0 +1,51 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { InverterEfficiencyCurve } from '../../types/project';
+
+interface InverterEfficiencyChartProps {
+  curves: InverterEfficiencyCurve[];
+}
+
+const InverterEfficiencyChart: React.FC<InverterEfficiencyChartProps> = ({ curves }) => {
+  const colors = ['#8884d8', '#82ca9d', '#ff8042', '#ffc658'];
+
+  if (curves.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-[300px] text-gray-500">
+        No efficiency profile found in .OND file.
+      </div>
+    );
+  }
+
+  const curveKey = (curve: InverterEfficiencyCurve, index: number) => curve.voltage ? `${curve.voltage} V` : `Curve ${index + 1}`;
+
+  // Curves are measured at different powers, so points are merged on output power and the lines bridge the gaps.
+  const combinedData = curves
+    .flatMap((curve, index) => curve.points.map(point => ({ outputPower: point.outputPower, [curveKey(curve, index)]: point.efficiency })))
+    .sort((a, b) => a.outputPower - b.outputPower);
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <LineChart data={combinedData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="outputPower" type="number" domain={[0, 'dataMax']} unit=" kW" label={{ value: 'Output Power', position: 'insideBottomRight', offset: -5 }} />
+        <YAxis unit="%" domain={['auto', 100]} label={{ value: 'Efficiency', angle: -90, position: 'insideLeft' }} />
+        <Tooltip formatter={(value: number) => value.toFixed(2)} />
+        <Legend />
+        {curves.map((curve, index) => (
+          <Line
+            key={curveKey(curve, index)}
+            type="monotone"
+            dataKey={curveKey(curve, index)}
+            stroke={colors[index % colors.length]}
+            dot={false}
+            strokeWidth={2}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default InverterEfficiencyChart;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { X, BarChart2 } from 'lucide-react';
+import { OndFile } from '../../types/project';
+import { getEfficiencyCurves } from '../../utils/ondParser';
+import InverterEfficiencyChart from './InverterEfficiencyChart';
+
+interface InverterPreviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ondFile: OndFile;
+  fileName: string;
+}
+
+const DetailItem: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between items-center py-2 px-3 border-b last:border-b-0 bg-white hover:bg-gray-50">
+    <span className="text-sm text-gray-600">{label}</span>
+    <span className="text-sm font-medium text-gray-900 text-right">{value || 'N/A'}</span>
+  </div>
+);
+
+const withUnit = (value: string | number | undefined, unit: string) => value != null && value !== '' ? `${value} ${unit}` : 'N/A';
+
+const InverterPreviewModal: React.FC<InverterPreviewModalProps> = ({ isOpen, onClose, ondFile, fileName }) => {
+  if (!isOpen) return null;
+
+  const curves = getEfficiencyCurves(ondFile);
+
+  const rawParameters = [
+    { label: 'Operating Mode', value: ondFile.ModeOper || 'N/A' },
+    { label: 'Power Threshold, PSeuil', value: withUnit(ondFile.PSeuil, 'W') },
+    { label: 'Nominal DC Current, INomDC', value: withUnit(ondFile.INomDC, 'A') },
+    { label: 'Nominal AC Current, INomAC', value: withUnit(ondFile.INomAC, 'A') },
+    { label: 'Max AC Current, IMaxAC', value: withUnit(ondFile.IMaxAC, 'A') },
+    { label: 'Efficiency Voltages, VNomEff', value: ondFile.VNomEff ? `${ondFile.VNomEff} V` : 'N/A' },
+    { label: 'Max Efficiency per Voltage', value: ondFile.EfficMaxV ? `${ondFile.EfficMaxV} %` : 'N/A' },
+    { label: 'Euro Efficiency per Voltage', value: ondFile.EfficEuroV ? `${ondFile.EfficEuroV} %` : 'N/A' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-7xl max-h-[95vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center flex-shrink-0">
+          <h2 className="text-lg font-semibold text-gray-800">Inverter Preview: {fileName}</h2>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100">
+            <X className="w-6 h-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-1">
+              <div className="bg-gray-50 rounded-lg shadow-sm border">
+                <div className="p-4 border-b bg-gray-100">
+                  <h2 className="font-semibold text-gray-800">Inverter</h2>
+                </div>
+                <div className="divide-y">
+                  <DetailItem label="Name" value={ondFile.Model as string} />
+                  <DetailItem label="Manufacturer" value={ondFile.Manufacturer as string} />
+                  <DetailItem label="Nominal AC Power" value={withUnit(ondFile.PNomConv, 'kW')} />
+                  <DetailItem label="Max AC Power" value={withUnit(ondFile.PMaxOUT, 'kW')} />
+                  <DetailItem label="Nominal DC Power" value={withUnit(ondFile.PNomDC, 'kW')} />
+                  <DetailItem label="Max DC Power" value={withUnit(ondFile.PMaxDC, 'kW')} />
+                  <DetailItem label="AC Voltage" value={`${withUnit(ondFile.VOutConv, 'V')} (${ondFile.MonoTri || 'N/A'})`} />
+                  <DetailItem label="MPPT Window" value={`${ondFile.VMppMin ?? '?'} - ${ondFile.VMPPMax ?? '?'} V`} />
+                  <DetailItem label="Max DC Voltage" value={withUnit(ondFile.VAbsMax, 'V')} />
+                  <DetailItem label="Max DC Current" value={withUnit(ondFile.IMaxDC, 'A')} />
+                  <DetailItem label="MPPTs / Inputs" value={`${ondFile.NbMPPT ?? 1} / ${ondFile.NbInputs ?? 'N/A'}`} />
+                  <DetailItem label="Max Efficiency" value={withUnit(ondFile.EfficMax, '%')} />
+                  <DetailItem label="Euro Efficiency" value={withUnit(ondFile.EfficEuro, '%')} />
+                  <DetailItem label="Source" value={ondFile.DataSource as string} />
+                </div>
+              </div>
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white rounded-lg border">
+                <div className="p-4">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+                    <BarChart2 className="w-5 h-5 mr-2 text-cyan-500" />
+                    Efficiency Curve
+                  </h3>
+                  <InverterEfficiencyChart curves={curves} />
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg border">
+                <div className="p-4 border-b">
+                  <h3 className="text-md font-semibold">Raw Parameters</h3>
+                </div>
+                <div>
+                  {rawParameters.map(param => (
+                    <DetailItem key={param.label} label={param.label} value={param.value} />
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InverterPreviewModal;
@@ -1,20 +1,190 @@
-import React from 'react';
-import { Zap } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../integrations/supabase/client';
+import { Inverter } from '../../types/project';
+import { Upload, Zap, Search, Plus, Eye, Trash2 } from 'lucide-react';
+import InverterUploadModal from './InverterUploadModal';
+import InverterPreviewModal from './InverterPreviewModal';
+
+interface InvertersPageProps {
+  onSaveInverter: (inverterData: Inverter) => void;
+}
+
+const InvertersPage: React.FC<InvertersPageProps> = ({ onSaveInverter }) => {
+  const [inverters, setInverters] = useState<Inverter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
+  const [inverterToPreview, setInverterToPreview] = useState<Inverter | null>(null);
+
+  useEffect(() => {
+    fetchInverters();
+  }, []);
+
+  const fetchInverters = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.from('inverters').select('*').order('created_at', { ascending: false });
+      if (error) {
+        console.error('Error fetching inverters:', error);
+        setInverters([]);
+      } else {
+        setInverters(data || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch inverters:', error);
+      setInverters([]);
+    }
+    setLoading(false);
+  };
+
+  const handleSaveAndRefresh = async (inverterData: Inverter) => {
+    try {
+      await onSaveInverter(inverterData);
+      fetchInverters(); // Re-fetch inverters to update the list
+    } catch (error) {
+      console.error('Failed to save inverter:', error);
+    }
+  };
+
+  const handlePreview = (inverter: Inverter) => {
+    setInverterToPreview(inverter);
+    setIsPreviewModalOpen(true);
+  };
+
+  const handleDelete = async (inverterId: string) => {
+    if (window.confirm('Are you sure you want to delete this inverter?')) {
+      try {
+        const { error } = await supabase.from('inverters').delete().eq('id', inverterId);
+        if (error) {
+          console.error('Error deleting inverter:', error);
+          alert('Failed to delete inverter.');
+        } else {
+          setInverters(prev => prev.filter(i => i.id !== inverterId));
+        }
+      } catch (error) {
+        console.error('Failed to delete inverter:', error);
+        alert('Failed to delete inverter.');
+      }
+    }
+  };
+
+  const normalizedSearch = searchTerm.trim().toLowerCase();
+  const filteredInverters = normalizedSearch
+    ? inverters.filter(i => `${i.manufacturer || ''} ${i.model_name}`.toLowerCase().includes(normalizedSearch))
+    : inverters;
 
-const InvertersPage: React.FC = () => {
   return (
-    <div className="max-w-7xl mx-auto p-6">
-      <h1 className="text-3xl font-bold text-gray-900 flex items-center mb-8">
-        <Zap className="w-8 h-8 mr-3 text-cyan-500" />
-        Inverter Library
-      </h1>
-      <div className="text-center py-20 bg-white rounded-lg shadow-sm border">
-        <Zap className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">Coming Soon</h3>
-        <p className="text-gray-500">The inverter library is under construction.</p>
+    <>
+      <div className="max-w-7xl mx-auto p-6">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+              <Zap className="w-8 h-8 mr-3 text-cyan-500" />
+              Inverter Library
+            </h1>
+            <p className="text-gray-600 mt-1">Manage and upload inverter data.</p>
+          </div>
+          <button
+            onClick={() => setIsUploadModalOpen(true)}
+            className="bg-orange-500 text-white px-5 py-2.5 rounded-lg hover:bg-orange-600 transition-colors flex items-center space-x-2"
+          >
+            <Upload className="w-5 h-5" />
+            <span>Upload .OND File</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-4 border-b flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-800">All Inverters</h2>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search inverters..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border rounded-lg w-64 focus:ring-orange-500 focus:border-orange-500"
+              />
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            {loading ? (
+              <p className="text-center py-12 text-gray-500">Loading inverters...</p>
+            ) : inverters.length === 0 ? (
+              <div className="text-center py-20">
+                <Zap className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No inverters found</h3>
+                <p className="text-gray-500 mb-6">Upload your first inverter data file to get started.</p>
+                <button
+                  onClick={() => setIsUploadModalOpen(true)}
+                  className="bg-orange-500 text-white px-6 py-2 rounded-lg hover:bg-orange-600
+                             transition-colors flex items-center space-x-2 mx-auto"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Upload Inverter</span>
+                </button>
+              </div>
+            ) : filteredInverters.length === 0 ? (
+              <p className="text-center py-12 text-gray-500">No inverters match "{searchTerm}".</p>
+            ) : (
+              <table className="w-full text-sm text-left text-gray-600">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3">Model Name</th>
+                    <th scope="col" className="px-6 py-3">Manufacturer</th>
+                    <th scope="col" className="px-6 py-3">AC Power</th>
+                    <th scope="col" className="px-6 py-3">MPPT Window</th>
+                    <th scope="col" className="px-6 py-3">MPPTs</th>
+                    <th scope="col" className="px-6 py-3 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredInverters.map(inverter => (
+                    <tr key={inverter.id} className="bg-white border-b hover:bg-gray-50">
+                      <td className="px-6 py-4 font-medium text-gray-900">{inverter.model_name}</td>
+                      <td className="px-6 py-4">{inverter.manufacturer || 'N/A'}</td>
+                      <td className="px-6 py-4">{inverter.pnom_ac ? `${inverter.pnom_ac} kW` : 'N/A'}</td>
+                      <td className="px-6 py-4">{inverter.vmpp_min && inverter.vmpp_max ? `${inverter.vmpp_min} - ${inverter.vmpp_max} V` : 'N/A'}</td>
+                      <td className="px-6 py-4">{inverter.n_mppt || 'N/A'}</td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => handlePreview(inverter)}
+                            disabled={!inverter.raw_ond_data}
+                            className="p-2 text-gray-500 hover:text-cyan-600 hover:bg-gray-100 rounded-md disabled:opacity-40 disabled:hover:text-gray-500 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                            title={inverter.raw_ond_data ? 'Preview Inverter' : 'No OND file stored for this inverter'}
+                          >
+                            <Eye className="w-5 h-5" />
+                          </button>
+                          <button onClick={() => handleDelete(inverter.id)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-gray-100 rounded-md" title="Delete Inverter">
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
       </div>
-    </div>
+      <InverterUploadModal
+        isOpen={isUploadModalOpen}
+        onClose={() => setIsUploadModalOpen(false)}
+        onSave={handleSaveAndRefresh}
+      />
+      {isPreviewModalOpen && inverterToPreview?.raw_ond_data && (
+        <InverterPreviewModal
+          isOpen={isPreviewModalOpen}
+          onClose={() => setIsPreviewModalOpen(false)}
+          ondFile={inverterToPreview.raw_ond_data}
+          fileName={inverterToPreview.model_name}
+        />
+      )}
+    </>
   );
 };
 
-export default InvertersPage;
\ No newline at end of file
+export default InvertersPage;
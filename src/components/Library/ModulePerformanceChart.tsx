@@ -1,6 +1,7 @@
 import React from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { PanFile } from '../../types/project';
+import { getSingleDiodeParameters, calculateIVCurve, IVPoint } from '../../utils/singleDiode';
 
 interface ModulePerformanceChartProps {
   panData: PanFile;
@@ -10,50 +11,14 @@ interface ModulePerformanceChartProps {
 }
 
 const ModulePerformanceChart: React.FC<ModulePerformanceChartProps> = ({ panData, chartType, legendType, temperature }) => {
-  const T_REF = 25; // STC temperature in °C
+  const diodeParams = getSingleDiodeParameters(panData);
 
-  const calculatePerformance = (irradiance: number, temp: number) => {
-    const {
-      Isc, Voc, Imp, Vmp,
-      mu_Isc, // in mA/°C from parser
-      muVocSpec, // in mV/°C from parser
-    } = panData as Record<string, number>;
-
-    if ([Isc, Voc, Imp, Vmp, mu_Isc, muVocSpec].some(v => typeof v !== 'number' || isNaN(v))) {
-      console.error("Chart calculation failed: Missing or invalid module parameters.", { Isc, Voc, Imp, Vmp, mu_Isc, muVocSpec });
+  const calculatePerformance = (irradiance: number, temp: number): IVPoint[] => {
+    if (!diodeParams) {
+      console.error("Chart calculation failed: Missing or invalid single-diode parameters.", panData);
       return [];
     }
-
-    const Isc_ref = Isc;
-    const Voc_ref = Voc;
-    const Imp_ref = Imp;
-    const Vmp_ref = Vmp;
-    
-    const G = irradiance;
-    const G_ref = 1000;
-    const dT = temp - T_REF;
-
-    // Convert coefficients to standard units (A/°C and V/°C)
-    const mu_Isc_A = mu_Isc / 1000;
-    const mu_Voc_V = muVocSpec / 1000;
-
-    const Isc_op = (Isc_ref + mu_Isc_A * dT) * (G / G_ref);
-    const Voc_op = (Voc_ref + mu_Voc_V * dT) * Math.max(0.8, Math.log(G / G_ref * 9 + 1) / Math.log(10));
-    const Imp_op = (Imp_ref + mu_Isc_A * dT) * (G / G_ref);
-    const Vmp_op = (Vmp_ref + mu_Voc_V * dT) * Math.max(0.8, Math.log(G / G_ref * 9 + 1) / Math.log(10));
-
-    const data = [];
-    for (let v = 0; v <= Voc_op * 1.05; v += Voc_op / 20) {
-      let i;
-      if (v < Vmp_op) {
-        i = Isc_op - (Isc_op - Imp_op) * (v / Vmp_op);
-      } else {
-        i = Imp_op * Math.pow(Math.max(0, (Voc_op - v) / (Voc_op - Vmp_op)), 2.5);
-      }
-      const current = Math.max(0, i);
-      data.push({ voltage: v, current, power: current * v });
-    }
-    return data.sort((a, b) => a.voltage - b.voltage);
+    return calculateIVCurve(diodeParams, irradiance, temp);
   };
 
   const irradiances = [1000, 800, 600, 400, 200];
@@ -75,18 +40,10 @@ const ModulePerformanceChart: React.FC<ModulePerformanceChartProps> = ({ panData
     );
   }
 
-  const combinedData: any[] = [];
-  const baseDataSet = chartDataSets.find(ds => ds.length > 0) || [];
-  
-  baseDataSet.forEach((point, i) => {
-    const dataPoint: { voltage: number, [key: string]: number } = { voltage: point.voltage };
-    chartDataSets.forEach((ds, index) => {
-      if (ds[i]) {
-        dataPoint[`value_${legendValues[index]}`] = ds[i][chartType];
-      }
-    });
-    combinedData.push(dataPoint);
-  });
+  // Each curve ends at its own Voc, so points are merged on voltage and the lines bridge the gaps.
+  const combinedData = chartDataSets
+    .flatMap((ds, index) => ds.map(point => ({ voltage: point.voltage, [`value_${legendValues[index]}`]: point[chartType] })))
+    .sort((a, b) => a.voltage - b.voltage);
 
   return (
     <ResponsiveContainer width="100%" height={400}>
@@ -105,6 +62,7 @@ const ModulePerformanceChart: React.FC<ModulePerformanceChartProps> = ({ panData
             stroke={colors[index % colors.length]}
             dot={false}
             strokeWidth={2}
+            connectNulls
           />
         ))}
       </LineChart>
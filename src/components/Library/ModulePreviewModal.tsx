@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { X, HelpCircle, BarChart2 } from 'lucide-react';
 import { PanFile } from '../../types/project';
 import ModulePerformanceChart from './ModulePerformanceChart';
+import { getSingleDiodeParameters, calculateOperatingPoint, calculateTemperatureCoefficients } from '../../utils/singleDiode';
 
 interface ModulePreviewModalProps {
   isOpen: boolean;
@@ -10,6 +11,8 @@ interface ModulePreviewModalProps {
   fileName: string;
 }
 
+const PERFORMANCE_IRRADIANCES = [1000, 800, 600, 400, 200, 100];
+
 const DetailItem: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
   <div className="flex justify-between items-center py-2 px-3 border-b last:border-b-0 bg-white hover:bg-gray-50">
     <span className="text-sm text-gray-600">{label}</span>
@@ -24,14 +27,25 @@ const ModulePreviewModal: React.FC<ModulePreviewModalProps> = ({ isOpen, onClose
 
   if (!isOpen) return null;
 
-  const performanceData = [
-    { irradiance: 1000, isc: 9.01, voc: 37.8, imp: 8.42, vmp: 30.9, power: 260.1, dPmp: -0.45, dVmp: -0.41, dVoc: -0.33 },
-    { irradiance: 800, isc: 7.21, voc: 37.4, imp: 6.72, vmp: 30.9, power: 207.7, dPmp: -0.45, dVmp: -0.42, dVoc: -0.34 },
-    { irradiance: 600, isc: 5.41, voc: 36.9, imp: 5.03, vmp: 30.8, power: 154.8, dPmp: -0.46, dVmp: -0.43, dVoc: -0.35 },
-    { irradiance: 400, isc: 3.61, voc: 36.3, imp: 3.33, vmp: 30.5, power: 101.7, dPmp: -0.46, dVmp: -0.44, dVoc: -0.36 },
-    { irradiance: 200, isc: 1.80, voc: 35.1, imp: 1.64, vmp: 29.8, power: 49.0, dPmp: -0.48, dVmp: -0.46, dVoc: -0.38 },
-    { irradiance: 100, isc: 0.90, voc: 33.9, imp: 0.81, vmp: 28.8, power: 23.2, dPmp: -0.50, dVmp: -0.48, dVoc: -0.41 },
-  ];
+  const diodeParams = getSingleDiodeParameters(panFile);
+  // 1000 W/m² at the selected cell temperature, not STC
+  const referencePoint = diodeParams ? calculateOperatingPoint(diodeParams, 1000, temperature) : null;
+
+  const performanceData = diodeParams && referencePoint ? PERFORMANCE_IRRADIANCES.map(irradiance => {
+    const point = calculateOperatingPoint(diodeParams, irradiance, temperature);
+    const coefficients = calculateTemperatureCoefficients(diodeParams, irradiance, temperature);
+    return {
+      irradiance,
+      isc: point.isc,
+      voc: point.voc,
+      imp: point.imp,
+      vmp: point.vmp,
+      power: point.pmp,
+      // Efficiency relative to 1000 W/m² at the same cell temperature
+      relativeEfficiency: referencePoint.pmp > 0 ? (point.pmp / irradiance) / (referencePoint.pmp / 1000) * 100 : 0,
+      ...coefficients,
+    };
+  }) : [];
 
   const rawParameters = [
     { label: 'Module Characterization Type', value: 'PAN' },
@@ -142,10 +156,20 @@ const ModulePreviewModal: React.FC<ModulePreviewModalProps> = ({ isOpen, onClose
                         <th className="px-4 py-2">Imp (A)</th>
                         <th className="px-4 py-2">Vmp (V)</th>
                         <th className="px-4 py-2">Power (W)</th>
+                        <th className="px-4 py-2">Rel. Eff. (%)</th>
                         <th className="px-4 py-2">dPmp/dT (%/°C)</th>
+                        <th className="px-4 py-2">dVmp/dT (%/°C)</th>
+                        <th className="px-4 py-2">dVoc/dT (%/°C)</th>
                       </tr>
                     </thead>
                     <tbody>
+                      {performanceData.length === 0 && (
+                        <tr className="border-t">
+                          <td colSpan={10} className="px-4 py-6 text-center text-gray-500">
+                            Missing single-diode parameters in .PAN file.
+                          </td>
+                        </tr>
+                      )}
                       {performanceData.map(row => (
                         <tr key={row.irradiance} className="border-t">
                           <td className="px-4 py-2 font-medium">{row.irradiance}</td>
@@ -154,7 +178,10 @@ const ModulePreviewModal: React.FC<ModulePreviewModalProps> = ({ isOpen, onClose
                           <td className="px-4 py-2">{row.imp.toFixed(2)}</td>
                           <td className="px-4 py-2">{row.vmp.toFixed(1)}</td>
                           <td className="px-4 py-2">{row.power.toFixed(1)}</td>
+                          <td className="px-4 py-2">{row.relativeEfficiency.toFixed(1)}</td>
                           <td className="px-4 py-2">{row.dPmp.toFixed(2)}</td>
+                          <td className="px-4 py-2">{row.dVmp.toFixed(2)}</td>
+                          <td className="px-4 py-2">{row.dVoc.toFixed(2)}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useMap, Polygon, Polyline, CircleMarker, Marker } from 'react-leaflet';
+import { useMap, Polygon, Polyline, CircleMarker, Marker, Circle } from 'react-leaflet';
 import { LatLngTuple, divIcon, Point, latLng } from 'leaflet';
 import { calculateDistanceInFeet, getMidpoint, getSnappedPoint, calculatePolygonArea, isPointInPolygon } from '../utils/geometry';
 
@@ -8,18 +8,26 @@ interface MapDrawingLayerProps {
   onPointsChange: (points: LatLngTuple[]) => void;
   onShapeComplete: () => void;
   onAreaChange: (area: number) => void;
+  mode?: 'polygon' | 'circle';
 }
 
-const MapDrawingLayer: React.FC<MapDrawingLayerProps> = ({ points, onPointsChange, onShapeComplete, onAreaChange }) => {
+const MapDrawingLayer: React.FC<MapDrawingLayerProps> = ({ points, onPointsChange, onShapeComplete, onAreaChange, mode = 'polygon' }) => {
   const map = useMap();
   const [mousePos, setMousePos] = useState<LatLngTuple | null>(null);
   const [isShiftPressed, setIsShiftPressed] = useState(false);
   const [isHoveringStartPoint, setIsHoveringStartPoint] = useState(false);
 
   useEffect(() => {
-    const area = calculatePolygonArea(points, map);
+    const area = mode === 'circle'
+      ? (points.length === 2 ? Math.PI * calculateDistanceInFeet(points[0], points[1]) ** 2 : 0)
+      : calculatePolygonArea(points);
     onAreaChange(area);
-  }, [points, map, onAreaChange]);
+  }, [points, onAreaChange, mode]);
+
+  // A circle is done once it has a centre and a rim point; completing from an effect lets the parent see both.
+  useEffect(() => {
+    if (mode === 'circle' && points.length === 2) onShapeComplete();
+  }, [mode, points, onShapeComplete]);
 
   useEffect(() => {
     map.getContainer().style.cursor = 'crosshair';
@@ -51,6 +59,10 @@ const MapDrawingLayer: React.FC<MapDrawingLayerProps> = ({ points, onPointsChang
   });
 
   map.on('click', (e) => {
+    if (mode === 'circle') {
+      if (points.length < 2) onPointsChange([...points, [e.latlng.lat, e.latlng.lng]]);
+      return;
+    }
     if (isHoveringStartPoint) return;
 
     let newPoint: LatLngTuple = [e.latlng.lat, e.latlng.lng];
@@ -75,7 +87,7 @@ const MapDrawingLayer: React.FC<MapDrawingLayerProps> = ({ points, onPointsChang
   }
 
   const renderMarkerForSegment = (p1: LatLngTuple, p2: LatLngTuple, polygonPoints: LatLngTuple[]) => {
-    const length = calculateDistanceInFeet(p1, p2, map);
+    const length = calculateDistanceInFeet(p1, p2);
     const midpointLatLng = getMidpoint(p1, p2);
 
     const p1_container = map.latLngToContainerPoint(p1);
@@ -109,6 +121,24 @@ const MapDrawingLayer: React.FC<MapDrawingLayerProps> = ({ points, onPointsChang
     return <Marker key={`${p1.toString()}-${p2.toString()}`} position={finalPosition} icon={icon} />;
   };
 
+  if (mode === 'circle') {
+    const rimPoint = points[1] || mousePos;
+    return (
+      <>
+        {points.length > 0 && rimPoint && (
+          <>
+            <Circle center={points[0]} radius={map.distance(points[0], rimPoint)} pathOptions={{ color: primaryColor, weight: 3, fillOpacity: 0.1 }} />
+            <Polyline positions={[points[0], rimPoint]} pathOptions={{ color: primaryColor, weight: 2, dashArray: '5, 10' }} />
+            {renderMarkerForSegment(points[0], rimPoint, [])}
+          </>
+        )}
+        {points.length > 0 && (
+          <CircleMarker center={points[0]} radius={5} pathOptions={{ color: 'white', fillColor: primaryColor, fillOpacity: 1, weight: 2 }} />
+        )}
+      </>
+    );
+  }
+
   return (
     <>
       {points.length > 0 && (
@@ -1,7 +1,15 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as maptalks from 'maptalks';
 import 'maptalks/dist/maptalks.css';
+import { Sun } from 'lucide-react';
 import { ProjectData, FieldSegment } from '../types/project';
+import { calculateSolarPosition } from '../utils/solarPosition';
+import { calculateSegmentShadows } from '../utils/shadows';
+
+const MINUTES_PER_DAY = 1440;
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
 
 interface MaptalksViewerProps {
   project: ProjectData;
@@ -19,6 +27,17 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<maptalks.Map | null>(null);
   const vectorLayerRef = useRef<maptalks.VectorLayer | null>(null);
+  const [shadowDate, setShadowDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [shadowMinutes, setShadowMinutes] = useState(10 * 60);
+
+  // Times are in the site's local standard time, matching how the energy simulation reads weather files.
+  const timeZone = project.coordinates ? Math.round(project.coordinates.lng / 15) : 0;
+  const sunPosition = useMemo(() => {
+    if (!project.coordinates) return null;
+    const [year, month, day] = shadowDate.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day) + (shadowMinutes - timeZone * 60) * 60000);
+    return calculateSolarPosition(project.coordinates, date);
+  }, [project.coordinates, shadowDate, shadowMinutes, timeZone]);
 
   useEffect(() => {
     if (mapRef.current || !mapContainerRef.current) return;
@@ -56,14 +75,35 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
 
     const geometries: maptalks.Geometry[] = [];
 
+    const shadows = sunPosition ? calculateSegmentShadows(fieldSegments, sunPosition) : [];
+    shadows.forEach((shadow, i) => {
+      const shadowRings = [shadow.points, ...(shadow.holes || [])].map(ring => ring.map(p => [p[1], p[0]] as maptalks.CoordinateArray));
+      const shadowPolygon = new maptalks.Polygon(shadowRings, {
+        id: `${shadow.casterId}-shadow-${i}`,
+        symbol: {
+          lineColor: 'transparent',
+          lineWidth: 0,
+          polygonFill: '#000000',
+          polygonOpacity: 0.35,
+        },
+      });
+      shadowPolygon.config('enableAltitude', true);
+      shadowPolygon.setAltitude(shadow.altitude + 0.05); // Just above the receiving surface
+      geometries.push(shadowPolygon);
+    });
+
     fieldSegments.forEach(segment => {
-      const segmentCoords = segment.points.map(p => [p[1], p[0]]);
+      const segmentCoords = segment.points.map(p => [p[1], p[0]] as maptalks.CoordinateArray);
+      // Outline followed by its holes, as maptalks expects polygon rings
+      const segmentRings = [segmentCoords, ...(segment.holes || []).map(hole => hole.map(p => [p[1], p[0]] as maptalks.CoordinateArray))];
       const surfaceHeight = (segment.surfaceHeight || 0) * 0.3048; // Convert feet to meters
+      const rackingHeight = (segment.rackingHeight || 0) * 0.3048;
+      const totalHeight = surfaceHeight + rackingHeight;
       
       // Create proper 3D extruded building
       if (surfaceHeight > 0) {
         // Create the main extruded building with all sides colored
-        const extrudedBuilding = new maptalks.Polygon([segmentCoords], {
+        const extrudedBuilding = new maptalks.Polygon(segmentRings, {
           id: `${segment.id}-building`,
           symbol: {
             // Building outline
@@ -99,28 +139,8 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
         extrudedBuilding.on('click', () => onSelectSegment(segment));
         geometries.push(extrudedBuilding);
         
-        // Add shadow polygon on ground
-        const shadowOffset = surfaceHeight * 0.5; // Shadow length based on height
-        const shadowCoords = segmentCoords.map(coord => [
-          coord[0] + shadowOffset * 0.0001, // Offset shadow eastward
-          coord[1] - shadowOffset * 0.0001  // Offset shadow southward
-        ]);
-        
-        const buildingShadow = new maptalks.Polygon([shadowCoords], {
-          id: `${segment.id}-shadow`,
-          symbol: {
-            lineColor: 'transparent',
-            lineWidth: 0,
-            polygonFill: '#000000',
-            polygonOpacity: 0.3,
-          },
-        });
-        buildingShadow.config('enableAltitude', true);
-        buildingShadow.setAltitude(0.1); // Slightly above ground
-        geometries.push(buildingShadow);
-        
         // Create elevated rooftop surface for solar panels
-        const rooftop = new maptalks.Polygon([segmentCoords], {
+        const rooftop = new maptalks.Polygon(segmentRings, {
           id: `${segment.id}-rooftop`,
           symbol: {
             lineColor: '#f59e0b',
@@ -138,7 +158,7 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
         
         // Add racking structure if racking height is specified
         if (rackingHeight > 0) {
-          const rackingStructure = new maptalks.Polygon([segmentCoords], {
+          const rackingStructure = new maptalks.Polygon(segmentRings, {
             id: `${segment.id}-racking`,
             symbol: {
               lineColor: '#6b7280',
@@ -160,11 +180,11 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
         
         // Add height labels at multiple positions
         const bounds = new maptalks.Polygon([segmentCoords]).getExtent();
-        const corners = [
-          [bounds.xmin, bounds.ymin],
-          [bounds.xmax, bounds.ymin],
-          [bounds.xmax, bounds.ymax],
-          [bounds.xmin, bounds.ymax]
+        const corners: maptalks.CoordinateArray[] = [
+          [bounds.xmin as number, bounds.ymin as number],
+          [bounds.xmax as number, bounds.ymin as number],
+          [bounds.xmax as number, bounds.ymax as number],
+          [bounds.xmin as number, bounds.ymax as number]
         ];
         
         corners.forEach((corner, index) => {
@@ -197,7 +217,7 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
         });
       } else {
         // Ground level polygon for segments without height
-        const groundPolygon = new maptalks.Polygon([segmentCoords], {
+        const groundPolygon = new maptalks.Polygon(segmentRings, {
           id: segment.id,
           symbol: {
             lineColor: '#ca8a04',
@@ -213,7 +233,7 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
       // Add solar modules on the rooftop
       if (segment.moduleLayout) {
         segment.moduleLayout.forEach((modulePolygonPoints, i) => {
-          const moduleCoords = modulePolygonPoints.map(p => [p[1], p[0]]);
+          const moduleCoords = modulePolygonPoints.map(p => [p[1], p[0]] as maptalks.CoordinateArray);
           const modulePolygon = new maptalks.Polygon([moduleCoords], {
             id: `${segment.id}-module-${i}`,
             symbol: {
@@ -236,9 +256,46 @@ const MaptalksViewer: React.FC<MaptalksViewerProps> = ({
     });
 
     layer.addGeometry(geometries);
-  }, [fieldSegments, selectedSegment, onSelectSegment]);
+  }, [fieldSegments, selectedSegment, onSelectSegment, sunPosition]);
 
-  return <div ref={mapContainerRef} className="h-full w-full" />;
+  return (
+    <div className="relative h-full w-full">
+      <div ref={mapContainerRef} className="h-full w-full" />
+      {project.coordinates && (
+        <div className="absolute bottom-0 left-0 z-[1000] m-4 w-80 bg-white/90 backdrop-blur-sm rounded-lg shadow-md p-3 text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-gray-800 flex items-center">
+              <Sun className="w-4 h-4 mr-2 text-orange-500" />
+              Sun &amp; Shadows
+            </span>
+            <input
+              type="date"
+              value={shadowDate}
+              onChange={e => e.target.value && setShadowDate(e.target.value)}
+              className="border rounded px-2 py-1 text-xs"
+            />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={MINUTES_PER_DAY - 15}
+            step={15}
+            value={shadowMinutes}
+            onChange={e => setShadowMinutes(parseInt(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-gray-600 mt-1">
+            <span>{formatMinutes(shadowMinutes)} (UTC{timeZone >= 0 ? '+' : ''}{timeZone})</span>
+            <span>
+              {sunPosition && sunPosition.elevation > 0
+                ? `Elevation ${sunPosition.elevation.toFixed(1)}°, azimuth ${sunPosition.azimuth.toFixed(1)}°`
+                : 'Sun below horizon'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default MaptalksViewer;
\ No newline at end of file
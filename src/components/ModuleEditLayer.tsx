@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMap, useMapEvents, Polygon, Rectangle } from 'react-leaflet';
+import { LatLng, LatLngBounds, LatLngTuple, LeafletMouseEvent, Point } from 'leaflet';
+import { FieldSegment } from '../types/project';
+import { isPointInRings } from '../utils/polygonOffset';
+import { getModuleCentroid } from '../utils/stringing';
+import { EMPTY_OVERRIDES, addModule, createGridModule, moveModules, removeModule } from '../utils/moduleEditing';
+
+interface ModuleEditLayerProps {
+  segment: FieldSegment;
+  onUpdate: (id: string, updates: Partial<FieldSegment>) => void;
+}
+
+type PointerAction =
+  | { kind: 'module'; index: number; start: LatLng }
+  | { kind: 'box'; start: LatLng };
+
+const CLICK_TOLERANCE = 4; // pixels of mouse travel still treated as a click
+
+// Click a module to delete it, click empty roof to add one on the grid, drag a box to select modules and drag a
+// selected module to move the whole selection. Edits are saved as the segment's module overrides.
+const ModuleEditLayer: React.FC<ModuleEditLayerProps> = ({ segment, onUpdate }) => {
+  const map = useMap();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [pointer, setPointer] = useState<PointerAction | null>(null);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+  const pressedModule = useRef<number | null>(null);
+
+  const layout = segment.moduleLayout || [];
+  const overrides = segment.moduleOverrides || EMPTY_OVERRIDES;
+  // Modules are drawn shifted by the building height; edits work on the true positions
+  const displayOffset = (segment.surfaceHeight || 0) * 0.00001;
+  const toDisplay = (p: LatLngTuple): LatLngTuple => [p[0] - displayOffset, p[1] - displayOffset];
+  const fromDisplay = (p: LatLng): LatLngTuple => [p.lat + displayOffset, p.lng + displayOffset];
+
+  // Map dragging would fight the selection box
+  useEffect(() => {
+    map.dragging.disable();
+    return () => {
+      map.dragging.enable();
+    };
+  }, [map]);
+
+  useEffect(() => {
+    setSelected([]);
+  }, [segment.id, layout.length]);
+
+  const isClick = (start: LatLng, end: LatLng) =>
+    map.latLngToContainerPoint(start).distanceTo(map.latLngToContainerPoint(end)) < CLICK_TOLERANCE;
+
+  const handlePointerUp = (action: PointerAction, end: LatLng) => {
+    if (action.kind === 'module') {
+      if (isClick(action.start, end)) {
+        onUpdate(segment.id, { moduleOverrides: removeModule(overrides, layout[action.index]) });
+        return;
+      }
+      const group = selected.includes(action.index) ? selected : [action.index];
+      const moved = moveModules(overrides, group.map(i => layout[i]), end.lat - action.start.lat, end.lng - action.start.lng);
+      onUpdate(segment.id, { moduleOverrides: moved });
+      return;
+    }
+
+    if (isClick(action.start, end)) {
+      if (selected.length > 0) {
+        setSelected([]);
+        return;
+      }
+      const point = fromDisplay(end);
+      const segmentRings = [segment.points, ...(segment.holes || [])].map(ring => ring.map(p => new Point(p[1], p[0])));
+      if (!isPointInRings(new Point(point[1], point[0]), segmentRings)) return;
+      const newModule = createGridModule(layout, point);
+      if (newModule) onUpdate(segment.id, { moduleOverrides: addModule(overrides, newModule) });
+      return;
+    }
+
+    const box = new LatLngBounds(action.start, end);
+    setSelected(layout.map((modulePolygon, i) => (box.contains(toDisplay(getModuleCentroid(modulePolygon))) ? i : -1)).filter(i => i !== -1));
+  };
+
+  useMapEvents({
+    mousedown: (e: LeafletMouseEvent) => {
+      const index = pressedModule.current;
+      pressedModule.current = null;
+      setPointer(index !== null ? { kind: 'module', index, start: e.latlng } : { kind: 'box', start: e.latlng });
+      setCursor(e.latlng);
+    },
+    mousemove: (e: LeafletMouseEvent) => {
+      if (pointer) setCursor(e.latlng);
+    },
+    mouseup: (e: LeafletMouseEvent) => {
+      if (!pointer) return;
+      setPointer(null);
+      setCursor(null);
+      handlePointerUp(pointer, e.latlng);
+    },
+  });
+
+  // Modules being dragged follow the mouse until they are dropped
+  const dragGroup = pointer?.kind === 'module' ? (selected.includes(pointer.index) ? selected : [pointer.index]) : [];
+  const dragOffset = pointer && cursor ? [cursor.lat - pointer.start.lat, cursor.lng - pointer.start.lng] : [0, 0];
+
+  return (
+    <>
+      {layout.map((modulePolygon, i) => (
+        <Polygon
+          key={`edit-${i}`}
+          positions={modulePolygon.map(toDisplay)}
+          pathOptions={{
+            color: selected.includes(i) ? '#f97316' : 'white',
+            weight: selected.includes(i) ? 2 : 1,
+            fillColor: selected.includes(i) ? '#fdba74' : '#3b82f6',
+            fillOpacity: dragGroup.includes(i) ? 0.3 : 0.9,
+          }}
+          eventHandlers={{ mousedown: () => { pressedModule.current = i; } }}
+        />
+      ))}
+
+      {dragGroup.map(i => (
+        <Polygon
+          key={`drag-${i}`}
+          positions={layout[i].map(p => {
+            const [lat, lng] = toDisplay(p);
+            return [lat + dragOffset[0], lng + dragOffset[1]] as LatLngTuple;
+          })}
+          pathOptions={{ color: '#f97316', weight: 2, dashArray: '4, 4', fillOpacity: 0.2 }}
+          interactive={false}
+        />
+      ))}
+
+      {pointer?.kind === 'box' && cursor && !isClick(pointer.start, cursor) && (
+        <Rectangle
+          bounds={new LatLngBounds(pointer.start, cursor)}
+          pathOptions={{ color: '#f97316', weight: 1, dashArray: '4, 4', fillOpacity: 0.1 }}
+          interactive={false}
+        />
+      )}
+    </>
+  );
+};
+
+export default ModuleEditLayer;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Polygon } from 'react-leaflet';
+import { Obstruction } from '../types/project';
+import { getObstructionKeepout, getObstructionPolygon } from '../utils/obstructions';
+
+interface ObstructionLayerProps {
+  obstruction: Obstruction;
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+const ObstructionLayer: React.FC<ObstructionLayerProps> = ({ obstruction, isSelected, onSelect }) => {
+  const footprint = getObstructionPolygon(obstruction);
+  if (footprint.length < 3) return null;
+
+  return (
+    <>
+      {obstruction.buffer > 0 && (
+        <Polygon
+          positions={getObstructionKeepout(obstruction)}
+          pathOptions={{ color: '#ef4444', weight: 1, dashArray: '4, 4', fillColor: '#ef4444', fillOpacity: 0.1 }}
+          interactive={false}
+        />
+      )}
+      <Polygon
+        positions={footprint}
+        pathOptions={{ color: isSelected ? '#facc15' : '#374151', weight: 2, fillColor: '#6b7280', fillOpacity: 0.7 }}
+        eventHandlers={{ click: onSelect }}
+      />
+    </>
+  );
+};
+
+export default ObstructionLayer;
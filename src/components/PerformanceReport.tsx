@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { X, Sun } from 'lucide-react';
+import { Design, Inverter, Module, ProjectData, WeatherData } from '../types/project';
+import { supabase } from '../integrations/supabase/client';
+import { simulateDesign, SimulationResult } from '../utils/energySimulation';
+import SelectField from './SelectField';
+
+interface PerformanceReportProps {
+  project: ProjectData;
+  designs: Design[];
+  weatherData: WeatherData | null;
+  onClose: () => void;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const PerformanceReport: React.FC<PerformanceReportProps> = ({ project, designs, weatherData, onClose }) => {
+  const [modules, setModules] = useState<Module[]>([]);
+  const [inverters, setInverters] = useState<Inverter[]>([]);
+  const [designId, setDesignId] = useState(designs[0]?.id || '');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchEquipment = async () => {
+      const [modulesResponse, invertersResponse] = await Promise.all([
+        supabase.from('modules').select('*'),
+        supabase.from('inverters').select('*'),
+      ]);
+      if (modulesResponse.error) console.error('Error fetching modules:', modulesResponse.error);
+      else setModules(modulesResponse.data || []);
+      if (invertersResponse.error) console.error('Error fetching inverters:', invertersResponse.error);
+      else setInverters(invertersResponse.data || []);
+    };
+    fetchEquipment();
+  }, []);
+
+  const handleRun = () => {
+    const design = designs.find(d => d.id === designId);
+    if (!design || !project.coordinates) {
+      setError(!project.coordinates ? 'The project has no location.' : 'Select a design to simulate.');
+      return;
+    }
+    setError('');
+    setIsRunning(true);
+    // Let the "Running..." state paint before the synchronous simulation blocks the thread.
+    setTimeout(() => {
+      try {
+        const simulation = simulateDesign(design, modules, inverters, project.coordinates!, { weather: weatherData || undefined });
+        if (simulation.segments.length === 0) {
+          setError('This design has no field segments with modules.');
+          setResult(null);
+        } else {
+          setResult(simulation);
+        }
+      } catch (error) {
+        console.error('Failed to simulate design:', error);
+        setError('The simulation failed. Check the module, inverter and weather data.');
+        setResult(null);
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const designOptions = designs.map(d => ({ value: d.id, label: d.name }));
+  const chartData = result ? result.monthlyEnergy.map((energy, i) => ({ month: MONTH_LABELS[i], energy })) : [];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-medium text-gray-900 flex items-center">
+          <Sun className="w-5 h-5 mr-2 text-green-500" />
+          Performance Report
+        </h4>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-md">
+          <X className="w-5 h-5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="flex items-end space-x-4">
+        <div className="flex-grow">
+          <SelectField label="Design" id="report-design" value={designId} onChange={setDesignId} options={designOptions} />
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !designId}
+          className="mb-4 bg-green-500 text-white px-4 py-3 rounded-lg hover:bg-green-600 transition-colors text-sm disabled:opacity-50"
+        >
+          {isRunning ? 'Running...' : 'Run Simulation'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Annual Production</p>
+              <p className="text-lg font-semibold text-gray-900">{Math.round(result.annualEnergy).toLocaleString()} kWh</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">DC Nameplate</p>
+              <p className="text-lg font-semibold text-gray-900">{result.dcNameplate.toFixed(2)} kWp</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Specific Yield</p>
+              <p className="text-lg font-semibold text-gray-900">{Math.round(result.specificYield)} kWh/kWp</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Performance Ratio</p>
+              <p className="text-lg font-semibold text-gray-900">{(result.performanceRatio * 100).toFixed(1)}%</p>
+            </div>
+          </div>
+          {result.clippingLoss > 0 && (
+            <p className="text-sm text-gray-600">
+              Inverter clipping: {Math.round(result.clippingLoss).toLocaleString()} kWh
+              ({(result.clippingLoss / (result.annualEnergy + result.clippingLoss) * 100).toFixed(1)}% of AC output before clipping)
+            </p>
+          )}
+
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis unit=" kWh" />
+              <Tooltip formatter={(value: number) => `${Math.round(value).toLocaleString()} kWh`} />
+              <Bar dataKey="energy" name="Energy" fill="#22c55e" />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs text-gray-700 uppercase">
+              <tr>
+                {MONTH_LABELS.map(label => <th key={label} className="px-2 py-2">{label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                {result.monthlyEnergy.map((energy, i) => <td key={MONTH_LABELS[i]} className="px-2 py-2">{Math.round(energy)}</td>)}
+              </tr>
+            </tbody>
+          </table>
+
+          <p className="text-xs text-gray-500">Weather: {result.weatherSource}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceReport;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, MapPin, Settings, Eye, Share2, FileText, Plus, Download, Trash2 } from 'lucide-react';
-import { Design, ProjectData } from '../types/project';
+import { ArrowLeft, MapPin, Settings, Eye, Share2, FileText, Plus, Download, Trash2, History } from 'lucide-react';
+import { Design, DesignSnapshot, FieldSegment, Obstruction, ProjectData, WeatherData } from '../types/project';
 import { MapContainer, TileLayer, Marker } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import NewDesignModal from './NewDesignModal';
+import PerformanceReport from './PerformanceReport';
+import WeatherDataPanel from './WeatherDataPanel';
+import ShadingAnalysisPanel from './ShadingAnalysisPanel';
+import DesignSnapshotsPanel from './DesignSnapshotsPanel';
+import { calculateDesignTemperatures } from '../utils/weatherParser';
+import { saveDesignSnapshot } from '../utils/designSnapshots';
 import { supabase } from '../integrations/supabase/client';
 
 // Fix for default markers in react-leaflet
@@ -22,14 +28,49 @@ interface ProjectPageProps {
   project: ProjectData;
   onBack: () => void;
   onSelectDesign: (design: Design) => void;
+  onProjectUpdate: (project: ProjectData) => void;
 }
 
+// Columns that identify a design row rather than describe it, so a clone gets its own.
+const DESIGN_IDENTITY_COLUMNS = ['id', 'created_at', 'project_id', 'name', 'last_modified', 'parent_design_id'];
+
+interface DesignRow {
+  id: string;
+  name: string;
+  last_modified: string;
+  nameplate: string;
+  max_nameplate?: number | null;
+  field_segments?: FieldSegment[] | null;
+  obstructions?: Obstruction[] | null;
+  parent_design_id?: string | null;
+}
+
+const toDesign = (d: DesignRow): Design => ({
+  id: d.id,
+  name: d.name,
+  lastModified: new Date(d.last_modified),
+  nameplate: d.nameplate,
+  maxNameplate: d.max_nameplate ?? undefined,
+  field_segments: d.field_segments || [],
+  obstructions: d.obstructions || [],
+  parentDesignId: d.parent_design_id ?? undefined,
+});
+
+// Deep copy of the segments with fresh ids; layouts, module and inverter choices and overrides come along as they are.
+const cloneFieldSegments = (segments: FieldSegment[]): FieldSegment[] => {
+  const stamp = new Date().toISOString();
+  return segments.map((segment, index) => ({ ...structuredClone(segment), id: `${stamp}-${index}` }));
+};
+
 type TabType = 'designs' | 'conditions' | 'shading' | 'sharing' | 'reports';
 
-const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesign }) => {
+const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesign, onProjectUpdate }) => {
   const [activeTab, setActiveTab] = useState<TabType>('designs');
   const [designs, setDesigns] = useState<Design[]>([]);
   const [isNewDesignModalOpen, setIsNewDesignModalOpen] = useState(false);
+  const [isPerformanceReportOpen, setIsPerformanceReportOpen] = useState(false);
+  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
+  const [snapshotsDesignId, setSnapshotsDesignId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!project.id) return;
@@ -46,14 +87,7 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
           console.error('Error fetching designs:', error);
           setDesigns([]);
         } else if (data) {
-          const formattedDesigns: Design[] = data.map(d => ({
-            id: d.id,
-            name: d.name,
-            lastModified: new Date(d.last_modified),
-            nameplate: d.nameplate,
-            field_segments: d.field_segments || [],
-          }));
-          setDesigns(formattedDesigns);
+          setDesigns(data.map(toDesign));
         }
       } catch (error) {
         console.error('Failed to fetch designs:', error);
@@ -64,6 +98,24 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
     fetchDesigns();
   }, [project.id]);
 
+  // Weather is only loaded for the open project; an hourly year is too large to fetch with the project list.
+  useEffect(() => {
+    if (!project.id) return;
+
+    const fetchWeatherData = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('weather_data')
+        .eq('id', project.id)
+        .single();
+
+      if (error) console.error('Error fetching weather data:', error);
+      else setWeatherData(data?.weather_data || null);
+    };
+
+    fetchWeatherData();
+  }, [project.id]);
+
   const tabs = [
     { id: 'designs' as TabType, label: 'Designs', icon: Settings },
     { id: 'conditions' as TabType, label: 'Conditions', icon: Eye },
@@ -75,15 +127,32 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
   const handleSaveDesign = async (designName: string, clonedDesignId?: string) => {
     if (!project.id) return;
 
-    const nameplate = clonedDesignId ? designs.find(d => d.id === clonedDesignId)?.nameplate || '-' : '-';
-    
     try {
+      // A clone copies every column of the source row, so design-level data added later is carried over too
+      let copied: Record<string, unknown> = { nameplate: '-' };
+      if (clonedDesignId) {
+        const { data: source, error: sourceError } = await supabase
+          .from('designs')
+          .select('*')
+          .eq('id', clonedDesignId)
+          .single();
+
+        if (sourceError) {
+          console.error('Error loading design to clone:', sourceError);
+          alert('Failed to clone design.');
+          return;
+        }
+        copied = Object.fromEntries(Object.entries(source).filter(([column]) => !DESIGN_IDENTITY_COLUMNS.includes(column)));
+        copied.field_segments = cloneFieldSegments(source.field_segments || []);
+        copied.parent_design_id = clonedDesignId;
+      }
+
       const { data, error } = await supabase
         .from('designs')
         .insert({
+          ...copied,
           name: designName,
           project_id: project.id,
-          nameplate: nameplate,
           last_modified: new Date().toISOString(),
         })
         .select()
@@ -95,14 +164,7 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
         return;
       }
 
-      const newDesign: Design = {
-        id: data.id,
-        name: data.name,
-        lastModified: new Date(data.last_modified),
-        nameplate: data.nameplate,
-        field_segments: data.field_segments || [],
-      };
-      setDesigns(prev => [newDesign, ...prev]);
+      setDesigns(prev => [toDesign(data), ...prev]);
     } catch (error) {
       console.error('Failed to save design:', error);
       alert('Failed to save design.');
@@ -124,6 +186,79 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
     }
   };
 
+  const handleUploadWeatherData = async (newWeatherData: WeatherData) => {
+    if (!project.id) return;
+
+    const designTemperatures = calculateDesignTemperatures(newWeatherData);
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({
+          weather_data: newWeatherData,
+          record_low_temp: designTemperatures.recordLow,
+          average_high_temp: designTemperatures.averageHigh,
+        })
+        .eq('id', project.id);
+
+      if (error) {
+        console.error('Error saving weather data:', error);
+        alert('Failed to save weather data.');
+        return;
+      }
+
+      setWeatherData(newWeatherData);
+      onProjectUpdate({ ...project, designTemperatures });
+    } catch (error) {
+      console.error('Failed to save weather data:', error);
+      alert('Failed to save weather data.');
+    }
+  };
+
+  // Writes field segments that replace the design's current ones, keeping the old ones as an automatic snapshot.
+  const replaceFieldSegments = async (design: Design, fieldSegments: FieldSegment[], snapshotName: string) => {
+    const snapshot = await saveDesignSnapshot(design.id, snapshotName, design.field_segments || [], true);
+    if (!snapshot) return { error: new Error('Could not snapshot the current field segments.') };
+
+    const lastModified = new Date();
+    const { error } = await supabase
+      .from('designs')
+      .update({ field_segments: fieldSegments, last_modified: lastModified.toISOString() })
+      .eq('id', design.id);
+    if (!error) {
+      setDesigns(prev => prev.map(d => d.id === design.id ? { ...d, field_segments: fieldSegments, lastModified } : d));
+    }
+    return { error };
+  };
+
+  const handleRestoreSnapshot = async (design: Design, snapshot: DesignSnapshot) => {
+    try {
+      const { error } = await replaceFieldSegments(design, snapshot.fieldSegments, `Before restoring "${snapshot.name}"`);
+      if (error) {
+        console.error('Error restoring snapshot:', error);
+        alert('Failed to restore snapshot.');
+      }
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      alert('Failed to restore snapshot.');
+    }
+  };
+
+  const handleSaveShading = async (designId: string, fieldSegments: FieldSegment[]) => {
+    const design = designs.find(d => d.id === designId);
+    if (!design) return;
+
+    try {
+      const { error } = await replaceFieldSegments(design, fieldSegments, 'Before shading analysis');
+      if (error) {
+        console.error('Error saving shading results:', error);
+        alert('Failed to save shading results.');
+      }
+    } catch (error) {
+      console.error('Failed to save shading results:', error);
+      alert('Failed to save shading results.');
+    }
+  };
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'designs':
@@ -161,6 +296,11 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
                         <button onClick={() => onSelectDesign(design)} className="text-blue-600 hover:text-blue-800 font-medium text-left">
                           {design.name}
                         </button>
+                        {design.parentDesignId && (
+                          <div className="text-xs text-gray-500">
+                            Cloned from {designs.find(d => d.id === design.parentDesignId)?.name || 'a deleted design'}
+                          </div>
+                        )}
                       </div>
                       <div className="text-sm text-gray-600">
                         {design.lastModified.toLocaleDateString()}
@@ -173,6 +313,13 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
                         <button className="p-1 text-orange-500 hover:text-orange-700" title="Design Settings">
                           <Settings className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setSnapshotsDesignId(snapshotsDesignId === design.id ? null : design.id)}
+                          className={`p-1 ${snapshotsDesignId === design.id ? 'text-cyan-700' : 'text-cyan-500 hover:text-cyan-700'}`}
+                          title="Snapshots"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
                         <button 
                           onClick={() => handleDeleteDesign(design.id)}
                           className="p-1 text-red-500 hover:text-red-700"
@@ -183,6 +330,9 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
                       </div>
                       <div></div>
                     </div>
+                    {snapshotsDesignId === design.id && (
+                      <DesignSnapshotsPanel design={design} onRestore={handleRestoreSnapshot} />
+                    )}
                   </div>
                 ))
               ) : (
@@ -211,25 +361,11 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
               <h3 className="text-lg font-semibold text-gray-900">Conditions</h3>
               <p className="text-sm text-gray-600">Environmental and site conditions that affect solar panel performance.</p>
             </div>
+            <div className="bg-white border rounded-lg p-6">
+              <WeatherDataPanel weatherData={weatherData} designTemperatures={project.designTemperatures} onUpload={handleUploadWeatherData} />
+            </div>
             <div className="bg-white border rounded-lg p-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="font-medium text-gray-900 mb-3">Weather Data</h4>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Solar Irradiance:</span>
-                      <span className="font-medium">Loading...</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Temperature:</span>
-                      <span className="font-medium">Loading...</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Wind Speed:</span>
-                      <span className="font-medium">Loading...</span>
-                    </div>
-                  </div>
-                </div>
                 <div>
                   <h4 className="font-medium text-gray-900 mb-3">Site Conditions</h4>
                   <div className="space-y-2 text-sm">
@@ -259,16 +395,7 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
               <h3 className="text-lg font-semibold text-gray-900">Shading Analysis</h3>
               <p className="text-sm text-gray-600">Analyze potential shading from nearby objects and structures.</p>
             </div>
-            <div className="bg-white border rounded-lg p-6">
-              <div className="text-center py-12">
-                <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                <h4 className="text-lg font-medium text-gray-900 mb-2">Shading Analysis</h4>
-                <p className="text-gray-500 mb-6">Run shading analysis to identify potential obstructions and their impact on solar production.</p>
-                <button className="bg-orange-500 text-white px-6 py-2 rounded-lg hover:bg-orange-600 transition-colors">
-                  Run Shading Analysis
-                </button>
-              </div>
-            </div>
+            <ShadingAnalysisPanel project={project} designs={designs} weatherData={weatherData} onSaveShading={handleSaveShading} />
           </div>
         );
 
@@ -320,7 +447,7 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
                 <div className="border border-gray-200 rounded-lg p-4">
                   <h4 className="font-medium text-gray-900 mb-2">Performance Report</h4>
                   <p className="text-sm text-gray-600 mb-4">Detailed analysis of expected solar production and system performance.</p>
-                  <button className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm">
+                  <button onClick={() => setIsPerformanceReportOpen(true)} className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm">
                     Generate Report
                   </button>
                 </div>
@@ -346,6 +473,9 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onSelectDesi
                   </button>
                 </div>
               </div>
+              {isPerformanceReportOpen && (
+                <PerformanceReport project={project} designs={designs} weatherData={weatherData} onClose={() => setIsPerformanceReportOpen(false)} />
+              )}
             </div>
           </div>
         );
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { Design, FieldSegment, ProjectData, WeatherData } from '../types/project';
+import { runShadingAnalysis, ShadingAnalysisResult } from '../utils/shadingAnalysis';
+import SelectField from './SelectField';
+
+interface ShadingAnalysisPanelProps {
+  project: ProjectData;
+  designs: Design[];
+  weatherData: WeatherData | null;
+  onSaveShading: (designId: string, fieldSegments: FieldSegment[]) => Promise<void>;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const ShadingAnalysisPanel: React.FC<ShadingAnalysisPanelProps> = ({ project, designs, weatherData, onSaveShading }) => {
+  const [designId, setDesignId] = useState(designs[0]?.id || '');
+  const [result, setResult] = useState<ShadingAnalysisResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const design = designs.find(d => d.id === designId) || designs[0];
+
+  const handleRun = () => {
+    if (!design || !project.coordinates) {
+      setError(!project.coordinates ? 'The project has no location.' : 'Create a design first.');
+      return;
+    }
+    setError('');
+    setIsRunning(true);
+    // Let the "Running..." state paint before the synchronous ray casting blocks the thread.
+    setTimeout(async () => {
+      try {
+        const analysis = runShadingAnalysis(design, project.coordinates!, { weather: weatherData || undefined });
+        if (analysis.segments.length === 0) {
+          setError('This design has no field segments with modules.');
+          setResult(null);
+        } else {
+          setResult(analysis);
+          const updatedSegments = (design.field_segments || []).map(segment => {
+            const segmentResult = analysis.segments.find(s => s.segmentId === segment.id);
+            return segmentResult ? { ...segment, shading: segmentResult.shading } : segment;
+          });
+          await onSaveShading(design.id, updatedSegments);
+        }
+      } catch (error) {
+        console.error('Failed to run shading analysis:', error);
+        setError('The shading analysis failed.');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      {!result && (
+        <div className="text-center py-8">
+          <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h4 className="text-lg font-medium text-gray-900 mb-2">Shading Analysis</h4>
+          <p className="text-gray-500 mb-6">Run shading analysis to identify potential obstructions and their impact on solar production.</p>
+        </div>
+      )}
+
+      <div className="flex items-end space-x-4 max-w-xl mx-auto">
+        <div className="flex-grow">
+          <SelectField
+            label="Design"
+            id="shading-design"
+            value={design?.id || ''}
+            onChange={setDesignId}
+            options={designs.map(d => ({ value: d.id, label: d.name }))}
+          />
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !design}
+          className="mb-4 bg-orange-500 text-white px-6 py-3 rounded-lg hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? 'Running...' : 'Run Shading Analysis'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      {result && design && (
+        <div className="space-y-4 mt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Average Solar Access</p>
+              <p className="text-lg font-semibold text-gray-900">{formatPercent(result.solarAccess)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-xs text-gray-500">Average TSRF</p>
+              <p className="text-lg font-semibold text-gray-900">{formatPercent(result.tsrf)}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs text-gray-700 uppercase">
+              <tr>
+                <th className="px-4 py-2">Field Segment</th>
+                <th className="px-4 py-2">Modules</th>
+                <th className="px-4 py-2">Solar Access</th>
+                <th className="px-4 py-2">TOF</th>
+                <th className="px-4 py-2">TSRF</th>
+                <th className="px-4 py-2">Lowest Module TSRF</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.segments.map(({ segmentId, shading }) => {
+                const segment = design.field_segments?.find(s => s.id === segmentId);
+                return (
+                  <tr key={segmentId} className="border-t">
+                    <td className="px-4 py-2 font-medium">{segment?.description || segmentId}</td>
+                    <td className="px-4 py-2">{shading.moduleTsrf.length}</td>
+                    <td className="px-4 py-2">{formatPercent(shading.solarAccess)}</td>
+                    <td className="px-4 py-2">{formatPercent(shading.tof)}</td>
+                    <td className="px-4 py-2">{formatPercent(shading.tsrf)}</td>
+                    <td className="px-4 py-2">{formatPercent(Math.min(...shading.moduleTsrf))}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <p className="text-xs text-gray-500">
+            Weather: {result.weatherSource}. Open the design to see the per-module heat map.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShadingAnalysisPanel;
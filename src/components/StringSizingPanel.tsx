@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DesignTemperatures, FieldSegment, Inverter, Module } from '../types/project';
+import { calculateStringSizing, calculateStringConfiguration } from '../utils/stringSizing';
+import SelectField from './SelectField';
+import FormField from './FormField';
+
+interface StringSizingPanelProps {
+  segment: FieldSegment;
+  module: Module;
+  inverters: Inverter[];
+  designTemperatures: DesignTemperatures;
+  onChange: (updates: Partial<FieldSegment>) => void;
+}
+
+const StringSizingPanel: React.FC<StringSizingPanelProps> = ({ segment, module, inverters, designTemperatures, onChange }) => {
+  const inverterOptions = inverters.map(i => ({ value: i.id, label: `${i.manufacturer} ${i.model_name}` }));
+  const inverter = inverters.find(i => i.id === segment.inverterId);
+
+  const sizing = inverter ? calculateStringSizing(module, inverter, designTemperatures, segment.rackingType) : null;
+  const modulesPerString = segment.modulesPerString || (sizing?.isValid ? sizing.maxModules : 0);
+  const configuration = inverter && sizing ? calculateStringConfiguration(segment.moduleCount, modulesPerString, sizing, module, inverter) : null;
+
+  // Default a newly picked inverter to the longest valid string, so auto-stringing has a length to work with.
+  const handleInverterChange = (inverterId: string) => {
+    const newInverter = inverters.find(i => i.id === inverterId);
+    const newSizing = newInverter ? calculateStringSizing(module, newInverter, designTemperatures, segment.rackingType) : null;
+    onChange({ inverterId: inverterId || undefined, modulesPerString: newSizing?.isValid ? newSizing.maxModules : undefined });
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg border mt-4">
+      <h4 className="font-semibold mb-2 text-gray-700">Electrical Design</h4>
+      <SelectField label="Inverter" id="seg-inverter" value={segment.inverterId || ''} onChange={handleInverterChange} options={inverterOptions} />
+
+      {inverter && !sizing && (
+        <p className="text-xs text-gray-500">The module or inverter is missing voltage data needed for string sizing.</p>
+      )}
+
+      {sizing && configuration && (
+        <div className="space-y-3">
+          <div className="space-y-1 text-gray-600">
+            <div className="flex justify-between">
+              <span>Valid string length:</span>
+              <span className="font-medium text-gray-800">{sizing.isValid ? `${sizing.minModules} – ${sizing.maxModules} modules` : 'None'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Voc at {designTemperatures.recordLow} °C:</span>
+              <span className="font-medium text-gray-800">{sizing.vocCold.toFixed(1)} V</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Vmp at {designTemperatures.averageHigh} °C ambient:</span>
+              <span className="font-medium text-gray-800">{sizing.vmpHot.toFixed(1)} V</span>
+            </div>
+          </div>
+
+          <FormField
+            label="Modules per String"
+            id="seg-modules-per-string"
+            type="number"
+            value={modulesPerString}
+            onChange={val => onChange({ modulesPerString: parseInt(val) || undefined })}
+            min={1}
+            step={1}
+          />
+
+          <div className="space-y-1 text-gray-600">
+            <div className="flex justify-between">
+              <span>Strings:</span>
+              <span className="font-medium text-gray-800">{configuration.stringCount} × {configuration.modulesPerString} modules</span>
+            </div>
+            <div className="flex justify-between">
+              <span>String voltage (Voc cold / Vmp hot):</span>
+              <span className="font-medium text-gray-800">{(sizing.vocCold * modulesPerString).toFixed(0)} / {(sizing.vmpHot * modulesPerString).toFixed(0)} V</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Inverters required:</span>
+              <span className="font-medium text-gray-800">{configuration.invertersRequired}</span>
+            </div>
+          </div>
+
+          {configuration.warnings.map(warning => (
+            <div key={warning} className="bg-yellow-50 border-l-4 border-yellow-400 p-2 rounded flex items-start space-x-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-yellow-800">{warning}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StringSizingPanel;
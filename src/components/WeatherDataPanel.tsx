@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { UploadCloud, CloudSun } from 'lucide-react';
+import { DesignTemperatures, WeatherData } from '../types/project';
+import { parseWeatherFile, summarizeWeatherByMonth } from '../utils/weatherParser';
+
+interface WeatherDataPanelProps {
+  weatherData: WeatherData | null;
+  designTemperatures?: DesignTemperatures;
+  onUpload: (weatherData: WeatherData) => Promise<void>;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const WeatherDataPanel: React.FC<WeatherDataPanelProps> = ({ weatherData, designTemperatures, onUpload }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const parsed = parseWeatherFile(event.target?.result as string);
+        setIsUploading(true);
+        await onUpload(parsed);
+      } catch (error) {
+        console.error('Failed to import weather file:', error);
+        alert(`Failed to import weather file: ${error instanceof Error ? error.message : error}`);
+      }
+      setIsUploading(false);
+    };
+    reader.readAsText(file);
+  };
+
+  const monthly = weatherData ? summarizeWeatherByMonth(weatherData) : [];
+  const annualGhi = monthly.reduce((sum, m) => sum + m.ghi, 0);
+  const averageTemp = monthly.length ? monthly.reduce((sum, m) => sum + m.averageTemp, 0) / monthly.length : 0;
+  const averageWind = monthly.length ? monthly.reduce((sum, m) => sum + m.averageWindSpeed, 0) / monthly.length : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="font-medium text-gray-900 mb-3">Weather Data</h4>
+          {weatherData ? (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Source:</span>
+                <span className="font-medium">{weatherData.source}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Solar Irradiance (GHI):</span>
+                <span className="font-medium">{Math.round(annualGhi).toLocaleString()} kWh/m²/yr</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Temperature:</span>
+                <span className="font-medium">{averageTemp.toFixed(1)} °C avg</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Wind Speed:</span>
+                <span className="font-medium">{averageWind.toFixed(1)} m/s avg</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No weather file uploaded. Upload an EPW or TMY3 CSV file for this site.</p>
+          )}
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".epw,.csv" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="mt-4 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors text-sm flex items-center space-x-2 disabled:opacity-50"
+          >
+            <UploadCloud className="w-4 h-4" />
+            <span>{isUploading ? 'Uploading...' : weatherData ? 'Replace Weather File' : 'Upload Weather File'}</span>
+          </button>
+        </div>
+        <div>
+          <h4 className="font-medium text-gray-900 mb-3">Design Temperatures</h4>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Record Low:</span>
+              <span className="font-medium">{designTemperatures ? `${designTemperatures.recordLow} °C` : 'Not set'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Average High:</span>
+              <span className="font-medium">{designTemperatures ? `${designTemperatures.averageHigh} °C` : 'Not set'}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {weatherData && (
+        <div className="overflow-x-auto">
+          <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+            <CloudSun className="w-5 h-5 mr-2 text-orange-500" />
+            Monthly Summary
+          </h4>
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs text-gray-700 uppercase">
+              <tr>
+                <th className="px-3 py-2">Month</th>
+                <th className="px-3 py-2">GHI (kWh/m²)</th>
+                <th className="px-3 py-2">DNI (kWh/m²)</th>
+                <th className="px-3 py-2">DHI (kWh/m²)</th>
+                <th className="px-3 py-2">Temp (°C)</th>
+                <th className="px-3 py-2">Wind (m/s)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {monthly.map((m, i) => (
+                <tr key={MONTH_LABELS[i]} className="border-t">
+                  <td className="px-3 py-2 font-medium">{MONTH_LABELS[i]}</td>
+                  <td className="px-3 py-2">{m.ghi.toFixed(1)}</td>
+                  <td className="px-3 py-2">{m.dni.toFixed(1)}</td>
+                  <td className="px-3 py-2">{m.dhi.toFixed(1)}</td>
+                  <td className="px-3 py-2">{m.averageTemp.toFixed(1)}</td>
+                  <td className="px-3 py-2">{m.averageWindSpeed.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeatherDataPanel;
@@ -7,7 +7,20 @@ export interface Design {
   name: string;
   lastModified: Date;
   nameplate: string;
+  maxNameplate?: number; // kWp DC cap shared by all field segments
   field_segments?: FieldSegment[];
+  obstructions?: Obstruction[];
+  parentDesignId?: string; // Design this one was cloned from
+}
+
+// Saved copy of a design's field segments that can be restored or compared later.
+export interface DesignSnapshot {
+  id: string;
+  designId: string;
+  name: string;
+  createdAt: Date;
+  isAutomatic: boolean; // Taken by the app before an operation that replaces the segments
+  fieldSegments: FieldSegment[];
 }
 
 export interface ProjectData {
@@ -21,6 +34,23 @@ export interface ProjectData {
     lat: number;
     lng: number;
   };
+  designTemperatures?: DesignTemperatures;
+}
+
+export interface DesignTemperatures {
+  recordLow: number; // in °C
+  averageHigh: number; // in °C
+}
+
+// Hourly weather for a typical year, stored column-wise (one value per hour, starting Jan 1 00:00 local standard time).
+export interface WeatherData {
+  source: string;
+  timeZone: number; // Hours from UTC
+  ghi: number[]; // W/m²
+  dni: number[]; // W/m²
+  dhi: number[]; // W/m²
+  tempAir: number[]; // °C
+  windSpeed: number[]; // m/s
 }
 
 export interface ValidationErrors {
@@ -69,14 +99,57 @@ export interface Module {
   data_source?: string;
 }
 
+export interface OndFile {
+  [key:string]: string | number;
+}
+
+export interface InverterEfficiencyPoint {
+  inputPower: number; // in kW (DC)
+  outputPower: number; // in kW (AC)
+  efficiency: number; // in %
+}
+
+export interface InverterEfficiencyCurve {
+  voltage?: number; // DC voltage the curve was measured at
+  points: InverterEfficiencyPoint[];
+}
+
+export interface Inverter {
+  id: string;
+  created_at: string;
+  model_name: string;
+  manufacturer?: string;
+  raw_ond_data?: OndFile;
+  pnom_ac?: number; // in kW
+  pmax_ac?: number; // in kW
+  pnom_dc?: number; // in kW
+  pmax_dc?: number; // in kW
+  vout_ac?: number;
+  vmpp_min?: number; // MPPT window, in volts
+  vmpp_max?: number;
+  vabs_max?: number; // Absolute max DC input voltage
+  imax_dc?: number; // in amps
+  n_inputs?: number;
+  n_mppt?: number;
+  efficiency_max?: number; // in %
+  efficiency_euro?: number; // in %
+  efficiency_curves?: InverterEfficiencyCurve[];
+  data_source?: string;
+}
+
 export interface FieldSegment {
   id: string;
   points: LatLngTuple[];
+  holes?: LatLngTuple[][]; // Inner rings (courtyards, light wells, ponds) left free of modules
   area: number; // in sq feet
   nameplate: number; // in kW
   moduleCount: number;
   moduleId?: string;
+  inverterId?: string;
+  modulesPerString?: number;
   moduleLayout?: LatLngTuple[][]; // Array of polygons for each module
+  moduleOverrides?: ModuleOverrides;
+  moduleStrings?: number[][]; // Indices into moduleLayout, one array per string
   azimuth: number; // For orientation
   
   // New properties from image
@@ -85,14 +158,65 @@ export interface FieldSegment {
   surfaceHeight?: number;
   rackingHeight?: number;
   moduleTilt?: number;
-  orientation?: 'Portrait' | 'Landscape';
+  orientation?: ModuleOrientation;
+  layoutMode?: 'single' | 'optimized';
+  layoutOptimization?: LayoutOptimization;
+  maxNameplate?: number; // kWp DC cap for this segment
+  nameplateTrimRule?: NameplateTrimRule;
   frameSizeUp?: number;
   frameSizeWide?: number;
   rowSpacing?: number; // In feet
+  rowSpacingMode?: 'manual' | 'solstice';
+  shadeFreeStart?: number; // Solar hour on the winter solstice from which rows must not shade each other
+  shadeFreeEnd?: number; // Solar hour until which rows must not shade each other
   spanRise?: number;
   moduleSpacing?: number; // In feet
   gcr?: number;
   frameSpacing?: number;
   setback?: number; // In feet
+  holeSetback?: number; // In feet, kept clear around holes; defaults to setback
   alignment?: 'left' | 'center' | 'right' | 'justify';
+  shading?: SegmentShading;
+}
+
+export type ModuleOrientation = 'Portrait' | 'Landscape';
+export type LayoutStrategy = ModuleOrientation | 'Mixed';
+
+// Manual edits on top of the automatic layout, matched to it by module centre so they survive re-layouts.
+export interface ModuleOverrides {
+  removed: LatLngTuple[]; // Centres of automatically placed modules the designer deleted
+  added: LatLngTuple[][]; // Modules placed or moved by hand
+}
+
+// Which modules are dropped first when a layout exceeds its kWp cap.
+export type NameplateTrimRule = 'ridge' | 'shading' | 'rows';
+
+// Outcome of the optimised fill, kept next to the plain single-orientation fill for comparison.
+export interface LayoutOptimization {
+  strategy: LayoutStrategy;
+  rowOffset: number; // In feet, from the segment's top edge to the first row
+  count: number;
+  singleOrientationCount: number;
+}
+
+// Results of the last shading analysis. Per-module arrays follow moduleLayout order; all values are fractions 0..1.
+export interface SegmentShading {
+  solarAccess: number; // Irradiance kept after shading, averaged over modules
+  tof: number; // Tilt and orientation factor: unshaded irradiance relative to the optimal orientation
+  tsrf: number; // Total solar resource fraction: solarAccess * tof
+  moduleSolarAccess: number[];
+  moduleTsrf: number[];
+  moduleCentres?: LatLngTuple[]; // Centres of the analysed modules, to match results to a recomputed layout
+}
+
+// A vertical prism that casts shade and blocks module placement (vent, chimney, HVAC unit, skylight, tree).
+export interface Obstruction {
+  id: string;
+  shape: 'polygon' | 'circle';
+  points: LatLngTuple[]; // Polygon vertices, or the single centre point of a circle
+  radius?: number; // in feet, circles only
+  baseHeight: number; // in feet, elevation of the surface it stands on
+  height: number; // in feet above its base
+  buffer: number; // in feet, keepout distance for modules around it
+  description?: string;
 }
\ No newline at end of file
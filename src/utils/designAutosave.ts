@@ -0,0 +1,193 @@
+import { FieldSegment, Obstruction } from '../types/project';
+import { supabase } from '../integrations/supabase/client';
+
+// Debounced saving of the design being edited. Edits are batched into one `designs.update`, failed saves are
+// retried with backoff (or when the browser comes back online), and a save is held back when the design was changed
+// elsewhere since it was loaded, until the designer merges or overwrites.
+
+const SAVE_DELAY = 1000; // ms of quiet before a batch is written
+const RETRY_START = 2000; // ms
+const RETRY_MAX = 60000; // ms
+
+export type SaveStatus = 'saved' | 'pending' | 'saving' | 'offline' | 'error' | 'conflict';
+
+// The parts of a design the editor changes.
+export interface DesignDraft {
+  fieldSegments: FieldSegment[];
+  obstructions: Obstruction[];
+  maxNameplate?: number;
+}
+
+interface DesignAutosaveOptions {
+  designId: string;
+  loaded: DesignDraft;
+  loadedAt: Date; // `last_modified` of the loaded design
+  onStatusChange: (status: SaveStatus) => void;
+  onConflict: (remote: DesignDraft) => void;
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Three-way merge of items with ids: each item takes whichever side changed it since `base`; items added on either
+// side are kept and items deleted on one side are dropped unless the other side changed them.
+const mergeById = <T extends { id: string }>(base: T[], local: T[], remote: T[]): T[] => {
+  const find = (items: T[], id: string) => items.find(item => item.id === id);
+  const merged: T[] = [];
+  remote.forEach(remoteItem => {
+    const baseItem = find(base, remoteItem.id);
+    const localItem = find(local, remoteItem.id);
+    if (!baseItem) {
+      merged.push(remoteItem);
+    } else if (!localItem) {
+      if (!isSame(baseItem, remoteItem)) merged.push(remoteItem);
+    } else {
+      merged.push(isSame(baseItem, localItem) ? remoteItem : localItem);
+    }
+  });
+  local.forEach(localItem => {
+    if (find(remote, localItem.id)) return;
+    const baseItem = find(base, localItem.id);
+    // Deleted remotely: kept only if it is new here or was edited here since loading
+    if (!baseItem || !isSame(baseItem, localItem)) merged.push(localItem);
+  });
+  return merged;
+};
+
+export const mergeDesignDrafts = (base: DesignDraft, local: DesignDraft, remote: DesignDraft): DesignDraft => ({
+  fieldSegments: mergeById(base.fieldSegments, local.fieldSegments, remote.fieldSegments),
+  obstructions: mergeById(base.obstructions, local.obstructions, remote.obstructions),
+  maxNameplate: base.maxNameplate === local.maxNameplate ? remote.maxNameplate : local.maxNameplate,
+});
+
+export const createDesignAutosave = ({ designId, loaded, loadedAt, onStatusChange, onConflict }: DesignAutosaveOptions) => {
+  let base = loaded; // What the database holds as far as we know
+  let knownModified = loadedAt.toISOString(); // `last_modified` our next save expects to replace
+  let draft: DesignDraft | null = null; // Latest state not yet written
+  let conflict: { remote: DesignDraft; modified: string } | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = RETRY_START;
+  let saving: Promise<void> | null = null;
+  let isDisposed = false;
+
+  const later = (delay: number) => {
+    clearTimeout(timer);
+    if (isDisposed) return;
+    timer = setTimeout(() => { flush(); }, delay);
+  };
+
+  // The update only applies while `last_modified` still holds the value we know, so a save made elsewhere in the
+  // meantime, whatever its clock said, leaves no row updated and is reported as a conflict instead of overwritten.
+  const write = async (next: DesignDraft) => {
+    const lastModified = new Date().toISOString();
+    const { data: updated, error } = await supabase
+      .from('designs')
+      .update({
+        field_segments: next.fieldSegments,
+        obstructions: next.obstructions,
+        max_nameplate: next.maxNameplate ?? null,
+        last_modified: lastModified,
+      })
+      .eq('id', designId)
+      .eq('last_modified', knownModified)
+      .select('id');
+    if (error) throw error;
+
+    if (!updated || updated.length === 0) {
+      const { data: remoteRow, error: readError } = await supabase
+        .from('designs')
+        .select('field_segments, obstructions, max_nameplate, last_modified')
+        .eq('id', designId)
+        .single();
+      if (readError) throw readError;
+
+      const remote: DesignDraft = {
+        fieldSegments: remoteRow.field_segments || [],
+        obstructions: remoteRow.obstructions || [],
+        maxNameplate: remoteRow.max_nameplate ?? undefined,
+      };
+      // Same content under a different stamp (e.g. one stored with more precision than a Date keeps): nothing to resolve
+      if (isSame(remote, base)) {
+        knownModified = remoteRow.last_modified;
+        return write(next);
+      }
+      conflict = { remote, modified: remoteRow.last_modified };
+      onStatusChange('conflict');
+      onConflict(remote);
+      return;
+    }
+
+    base = next;
+    knownModified = lastModified;
+    retryDelay = RETRY_START;
+    if (draft === next) {
+      draft = null;
+      onStatusChange('saved');
+    } else {
+      onStatusChange('pending');
+      later(SAVE_DELAY);
+    }
+  };
+
+  // Writes the latest draft now. Resolves once it is saved, held back by a conflict or queued for a retry.
+  const flush = async (): Promise<void> => {
+    clearTimeout(timer);
+    if (saving) {
+      await saving;
+      if (draft && !conflict) return flush();
+      return;
+    }
+    if (!draft || conflict) return;
+    if (!navigator.onLine) {
+      onStatusChange('offline');
+      return;
+    }
+
+    onStatusChange('saving');
+    saving = write(draft).catch(error => {
+      console.error('Failed to save design:', error);
+      onStatusChange(navigator.onLine ? 'error' : 'offline');
+      later(retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RETRY_MAX);
+    });
+    await saving;
+    saving = null;
+  };
+
+  const schedule = (next: DesignDraft) => {
+    if (!draft && isSame(next, base)) return;
+    draft = next;
+    if (conflict) return;
+    onStatusChange('pending');
+    later(SAVE_DELAY);
+  };
+
+  // Settles a conflict by merging our edits into the remote version or by writing ours over it. Returns the
+  // design state the editor should show.
+  const resolveConflict = (resolution: 'merge' | 'overwrite'): DesignDraft | null => {
+    if (!conflict) return null;
+    const local = draft || base;
+    const resolved = resolution === 'merge' ? mergeDesignDrafts(base, local, conflict.remote) : local;
+    base = conflict.remote;
+    knownModified = conflict.modified;
+    conflict = null;
+    draft = null;
+    schedule(resolved);
+    if (!draft) onStatusChange('saved');
+    return resolved;
+  };
+
+  const handleOnline = () => { flush(); };
+  window.addEventListener('online', handleOnline);
+
+  const dispose = () => {
+    window.removeEventListener('online', handleOnline);
+    isDisposed = true;
+    // Whatever is still waiting goes out straight away, without further retries
+    if (draft && !conflict) flush();
+    clearTimeout(timer);
+  };
+
+  return { schedule, flush, resolveConflict, dispose };
+};
+
+export type DesignAutosave = ReturnType<typeof createDesignAutosave>;
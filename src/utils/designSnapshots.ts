@@ -0,0 +1,135 @@
+import { DesignSnapshot, FieldSegment } from '../types/project';
+import { supabase } from '../integrations/supabase/client';
+
+// Named versions of a design's field segments, kept in `design_snapshots`. Designers save them by hand; the app
+// saves one automatically before restoring a version, overwriting or merging after a conflict and storing shading
+// results, so whatever those replace can always be brought back.
+
+// Keys recomputed from the others whenever the layout runs; their effect shows up in the module count instead.
+const DERIVED_KEYS: (keyof FieldSegment)[] = ['id', 'area', 'nameplate', 'moduleCount', 'moduleLayout', 'moduleStrings', 'layoutOptimization', 'shading'];
+
+const FIELD_LABELS: Partial<Record<keyof FieldSegment, string>> = {
+  points: 'outline',
+  holes: 'holes',
+  moduleId: 'module',
+  inverterId: 'inverter',
+  modulesPerString: 'modules per string',
+  moduleOverrides: 'manual module edits',
+  azimuth: 'azimuth',
+  description: 'name',
+  rackingType: 'racking',
+  surfaceHeight: 'surface height',
+  rackingHeight: 'racking height',
+  moduleTilt: 'tilt',
+  orientation: 'orientation',
+  layoutMode: 'layout mode',
+  maxNameplate: 'kWp cap',
+  nameplateTrimRule: 'trim rule',
+  rowSpacing: 'row spacing',
+  rowSpacingMode: 'row spacing mode',
+  moduleSpacing: 'module spacing',
+  setback: 'setback',
+  holeSetback: 'hole setback',
+  alignment: 'alignment',
+};
+
+export interface SegmentChange {
+  id: string;
+  name: string;
+  fields: string[]; // Labels of the settings that differ
+  moduleCountChange: number;
+}
+
+export interface SnapshotComparison {
+  added: FieldSegment[];
+  removed: FieldSegment[];
+  changed: SegmentChange[];
+  moduleCount: { before: number; after: number };
+  nameplate: { before: number; after: number }; // kWp
+}
+
+export const getSegmentName = (segment: FieldSegment, index: number) => segment.description || `Field Segment ${index + 1}`;
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const sumOf = (segments: FieldSegment[], key: 'moduleCount' | 'nameplate') =>
+  segments.reduce((sum, segment) => sum + (segment[key] || 0), 0);
+
+// What changed going from `before` to `after`, matching segments by id.
+export const compareSnapshots = (before: FieldSegment[], after: FieldSegment[]): SnapshotComparison => {
+  const changed: SegmentChange[] = [];
+  after.forEach((segment, index) => {
+    const previous = before.find(seg => seg.id === segment.id);
+    if (!previous) return;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(segment)] as (keyof FieldSegment)[]);
+    const fields = [...keys]
+      .filter(key => !DERIVED_KEYS.includes(key) && !isSame(previous[key], segment[key]))
+      .map(key => FIELD_LABELS[key] || key);
+    const moduleCountChange = (segment.moduleCount || 0) - (previous.moduleCount || 0);
+    if (fields.length > 0 || moduleCountChange !== 0) {
+      changed.push({ id: segment.id, name: getSegmentName(segment, index), fields, moduleCountChange });
+    }
+  });
+
+  return {
+    added: after.filter(segment => !before.some(seg => seg.id === segment.id)),
+    removed: before.filter(segment => !after.some(seg => seg.id === segment.id)),
+    changed,
+    moduleCount: { before: sumOf(before, 'moduleCount'), after: sumOf(after, 'moduleCount') },
+    nameplate: { before: sumOf(before, 'nameplate'), after: sumOf(after, 'nameplate') },
+  };
+};
+
+export const fetchDesignSnapshots = async (designId: string): Promise<DesignSnapshot[]> => {
+  const { data, error } = await supabase
+    .from('design_snapshots')
+    .select('*')
+    .eq('design_id', designId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching design snapshots:', error);
+    return [];
+  }
+  return (data || []).map(s => ({
+    id: s.id,
+    designId: s.design_id,
+    name: s.name,
+    createdAt: new Date(s.created_at),
+    isAutomatic: s.is_automatic,
+    fieldSegments: s.field_segments || [],
+  }));
+};
+
+// Returns the stored snapshot, or null if it could not be saved.
+export const saveDesignSnapshot = async (
+  designId: string,
+  name: string,
+  fieldSegments: FieldSegment[],
+  isAutomatic = false,
+): Promise<DesignSnapshot | null> => {
+  const { data, error } = await supabase
+    .from('design_snapshots')
+    .insert({
+      design_id: designId,
+      name,
+      field_segments: fieldSegments,
+      is_automatic: isAutomatic,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving design snapshot:', error);
+    return null;
+  }
+  return {
+    id: data.id,
+    designId: data.design_id,
+    name: data.name,
+    createdAt: new Date(data.created_at),
+    isAutomatic: data.is_automatic,
+    fieldSegments: data.field_segments || [],
+  };
+};
@@ -0,0 +1,90 @@
+import { FieldSegment } from '../types/project';
+
+// Undo/redo for field segment edits. Each step is a command that knows how to apply itself and what its inverse
+// is, so only what the designer changed is recorded; layouts and areas are derived again after every step.
+
+const MAX_HISTORY = 100;
+
+export type SegmentCommand =
+  | { kind: 'add'; segment: FieldSegment; index: number }
+  | { kind: 'delete'; segment: FieldSegment; index: number }
+  | {
+      kind: 'update';
+      id: string;
+      before: Partial<FieldSegment>; // Previous values of the keys in `after`
+      after: Partial<FieldSegment>;
+      groupId?: string; // Consecutive updates sharing a group (e.g. one vertex drag) form a single step
+    };
+
+export interface EditHistory {
+  undo: SegmentCommand[];
+  redo: SegmentCommand[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] };
+
+export const createUpdateCommand = (segment: FieldSegment, updates: Partial<FieldSegment>, groupId?: string): SegmentCommand => {
+  const before: Partial<FieldSegment> = {};
+  (Object.keys(updates) as (keyof FieldSegment)[]).forEach(key => {
+    (before as Record<string, unknown>)[key] = segment[key];
+  });
+  return { kind: 'update', id: segment.id, before, after: updates, groupId };
+};
+
+export const applyCommand = (segments: FieldSegment[], command: SegmentCommand): FieldSegment[] => {
+  switch (command.kind) {
+    case 'add': {
+      const updated = segments.filter(seg => seg.id !== command.segment.id);
+      updated.splice(Math.min(command.index, updated.length), 0, command.segment);
+      return updated;
+    }
+    case 'delete':
+      return segments.filter(seg => seg.id !== command.segment.id);
+    case 'update':
+      return segments.map(seg => seg.id === command.id ? { ...seg, ...command.after } : seg);
+  }
+};
+
+export const invertCommand = (command: SegmentCommand): SegmentCommand => {
+  switch (command.kind) {
+    case 'add':
+      return { kind: 'delete', segment: command.segment, index: command.index };
+    case 'delete':
+      return { kind: 'add', segment: command.segment, index: command.index };
+    case 'update':
+      return { kind: 'update', id: command.id, before: command.after, after: command.before, groupId: command.groupId };
+  }
+};
+
+// Pushes a new step and clears the redo stack. An update in the same group as the last step is folded into it,
+// keeping the oldest value of every key so one undo goes back to before the drag started.
+export const recordCommand = (history: EditHistory, command: SegmentCommand): EditHistory => {
+  const last = history.undo[history.undo.length - 1];
+  if (command.kind === 'update' && command.groupId && last?.kind === 'update' && last.groupId === command.groupId && last.id === command.id) {
+    const merged: SegmentCommand = {
+      ...last,
+      before: { ...command.before, ...last.before },
+      after: { ...last.after, ...command.after },
+    };
+    return { undo: [...history.undo.slice(0, -1), merged], redo: [] };
+  }
+  return { undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] };
+};
+
+export const undoCommand = (history: EditHistory, segments: FieldSegment[]) => {
+  const command = history.undo[history.undo.length - 1];
+  if (!command) return null;
+  return {
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, command] },
+    segments: applyCommand(segments, invertCommand(command)),
+  };
+};
+
+export const redoCommand = (history: EditHistory, segments: FieldSegment[]) => {
+  const command = history.redo[history.redo.length - 1];
+  if (!command) return null;
+  return {
+    history: { undo: [...history.undo, command], redo: history.redo.slice(0, -1) },
+    segments: applyCommand(segments, command),
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Design, FieldSegment, Inverter, Module } from '../types/project';
+import { calculateClearSky, simulateDesign } from './energySimulation';
+
+const module: Module = { id: 'module', created_at: '', model_name: 'Test 400', max_power_pmp: 400, width: 1.1, height: 1.8, mu_pmp_req: -0.35 };
+
+const segment: FieldSegment = {
+  id: 'segment',
+  points: [[33.45, -112.07]],
+  area: 0,
+  nameplate: 40,
+  moduleCount: 100,
+  moduleId: module.id,
+  inverterId: 'inverter',
+  azimuth: 180,
+  moduleTilt: 30,
+  rackingType: 'Fixed Tilt',
+};
+
+const design: Design = { id: 'design', name: 'Test', lastModified: new Date(0), nameplate: '40', field_segments: [segment] };
+const coordinates = { lat: 33.45, lng: -112.07 };
+
+describe('calculateClearSky', () => {
+  // Reference values from pvlib.clearsky.ineichen(..., altitude=0, perez_enhancement=True) with Linke turbidity 3,
+  // dni_extra 1367 W/m² and the Kasten-Young air mass
+  it.each([
+    [0, 1067.14, 944.33, 122.81],
+    [60, 487.25, 789.54, 92.48],
+  ])('matches Ineichen-Perez at zenith %i°', (zenith, ghi, dni, dhi) => {
+    const irradiance = calculateClearSky(zenith, 1367, 3);
+    expect(irradiance.ghi).toBeCloseTo(ghi, 1);
+    expect(irradiance.dni).toBeCloseTo(dni, 1);
+    expect(irradiance.dhi).toBeCloseTo(dhi, 1);
+  });
+
+  it('is dark below the horizon', () => {
+    expect(calculateClearSky(95, 1367, 3)).toEqual({ ghi: 0, dni: 0, dhi: 0 });
+  });
+});
+
+describe('simulateDesign', () => {
+  const unlimited: Inverter = { id: 'inverter', created_at: '', model_name: 'Unlimited', efficiency_euro: 97 };
+  const undersized: Inverter = { ...unlimited, model_name: 'Undersized', pmax_ac: 20, pmax_dc: 50 };
+
+  it('does not clip without an AC limit', () => {
+    const result = simulateDesign(design, [module], [unlimited], coordinates);
+    expect(result.clippingLoss).toBe(0);
+    expect(result.dcNameplate).toBeCloseTo(40);
+  });
+
+  it('clips at the inverter max AC power and reports the loss', () => {
+    const unclipped = simulateDesign(design, [module], [unlimited], coordinates);
+    const clipped = simulateDesign(design, [module], [undersized], coordinates);
+
+    expect(clipped.clippingLoss).toBeGreaterThan(0);
+    expect(clipped.annualEnergy + clipped.clippingLoss).toBeCloseTo(unclipped.annualEnergy, 3);
+    expect(clipped.annualEnergy).toBeLessThanOrEqual(20 * 8760);
+  });
+});
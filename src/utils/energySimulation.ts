@@ -0,0 +1,248 @@
+import { Design, FieldSegment, Inverter, Module, WeatherData } from '../types/project';
+import { getSingleDiodeParameters, calculateOperatingPoint } from './singleDiode';
+import { SolarPosition, calculateSolarPosition, calculateExtraterrestrialIrradiance, calculateAirMass } from './solarPosition';
+import { HorizontalIrradiance, TranspositionModel, calculatePlaneOfArrayIrradiance } from './transposition';
+
+// Annual hourly production model: sun position -> clear-sky or measured irradiance -> plane-of-array
+// irradiance -> cell temperature -> module DC power -> losses and inverter -> AC energy.
+
+const DEG = Math.PI / 180;
+const HOURS_PER_YEAR = 8760;
+const SIMULATION_YEAR = 2023; // Any non-leap year; TMY files have 8760 hours
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const DEFAULT_LINKE_TURBIDITY = 3;
+const DEFAULT_ALBEDO = 0.2;
+const DEFAULT_DC_LOSSES = 0.1; // Soiling, mismatch, wiring and LID
+const DEFAULT_INVERTER_EFFICIENCY = 96; // in %
+// Clear-sky runs have no temperature or wind data.
+const DEFAULT_AMBIENT_TEMPERATURE = 20;
+const DEFAULT_WIND_SPEED = 1;
+
+// ASHRAE incidence angle modifier parameter (PVsyst default).
+const IAM_B0 = 0.05;
+
+// PVsyst thermal model: Tc = Ta + G * alpha * (1 - eff) / (Uc + Uv * ws)
+const ABSORPTANCE = 0.9;
+const THERMAL_UC: { [rackingType: string]: number } = {
+  'Fixed Tilt': 29, // Free-standing
+  'Flush Mount': 20, // Semi-integrated, little rear ventilation
+};
+const THERMAL_UV = 0;
+
+export interface SimulationOptions {
+  weather?: WeatherData; // Clear-sky when omitted
+  linkeTurbidity?: number;
+  transposition?: TranspositionModel;
+  albedo?: number;
+  dcLosses?: number; // Fraction of DC energy lost before the inverter
+}
+
+export interface SegmentSimulationResult {
+  segmentId: string;
+  dcNameplate: number; // in kWp
+  annualEnergy: number; // in kWh AC
+  poaInsolation: number; // in kWh/m²
+  clippingLoss: number; // in kWh, AC energy lost to the inverters' max AC power
+}
+
+export interface SimulationResult {
+  weatherSource: string;
+  monthlyEnergy: number[]; // in kWh AC, Jan..Dec
+  annualEnergy: number; // in kWh AC
+  dcNameplate: number; // in kWp
+  specificYield: number; // in kWh/kWp
+  performanceRatio: number; // 0..1
+  clippingLoss: number; // in kWh
+  segments: SegmentSimulationResult[];
+}
+
+// Ineichen-Perez clear-sky model at sea level with a constant Linke turbidity.
+export const calculateClearSky = (zenith: number, dniExtra: number, linkeTurbidity: number): HorizontalIrradiance => {
+  const airMass = calculateAirMass(zenith);
+  if (airMass === null) return { ghi: 0, dni: 0, dhi: 0 };
+  const cosZenith = Math.cos(zenith * DEG);
+
+  // Sea-level coefficients: cg1 = 0.868, cg2 = 0.0387, fh1 = fh2 = 1, with Perez's air mass enhancement
+  const ghi = Math.max(0, 0.868 * dniExtra * cosZenith * Math.exp(-0.0387 * airMass * linkeTurbidity) * Math.exp(0.01 * airMass ** 1.8));
+  const bnci = Math.max(0, 0.827 * dniExtra * Math.exp(-0.09 * airMass * (linkeTurbidity - 1)));
+  const bnci2 = ghi * Math.max(0, (1 - (0.1 - 0.2 * Math.exp(-linkeTurbidity)) / 0.982) / cosZenith);
+  const dni = Math.min(bnci, bnci2);
+
+  return { ghi, dni, dhi: Math.max(0, ghi - dni * cosZenith) };
+};
+
+const calculateIncidenceModifier = (cosAoi: number) => {
+  if (cosAoi <= 0) return 0;
+  return Math.max(0, 1 - IAM_B0 * (1 / cosAoi - 1));
+};
+
+// Module DC power as a function of irradiance and cell temperature. The single-diode model is tabulated once
+// per module and interpolated, which keeps 8760 hours x segments fast.
+const createModulePowerModel = (module: Module): ((irradiance: number, cellTemperature: number) => number) => {
+  const pNom = module.max_power_pmp || 0;
+  const diodeParams = module.raw_pan_data ? getSingleDiodeParameters(module.raw_pan_data) : null;
+
+  if (!diodeParams) {
+    const gamma = (module.mu_pmp_req ?? -0.4) / 100;
+    return (g, t) => g > 0 ? Math.max(0, pNom * (g / 1000) * (1 + gamma * (t - 25))) : 0;
+  }
+
+  const G_STEP = 50, G_MAX = 1500, T_STEP = 5, T_MIN = -30, T_MAX = 90;
+  const gCount = G_MAX / G_STEP + 1;
+  const tCount = (T_MAX - T_MIN) / T_STEP + 1;
+  const table: number[][] = [];
+  for (let gi = 0; gi < gCount; gi++) {
+    const row: number[] = [];
+    for (let ti = 0; ti < tCount; ti++) {
+      row.push(gi === 0 ? 0 : calculateOperatingPoint(diodeParams, gi * G_STEP, T_MIN + ti * T_STEP).pmp);
+    }
+    table.push(row);
+  }
+
+  return (g, t) => {
+    if (g <= 0) return 0;
+    const gPos = Math.min(g, G_MAX) / G_STEP;
+    const tPos = (Math.max(T_MIN, Math.min(t, T_MAX)) - T_MIN) / T_STEP;
+    const g0 = Math.min(Math.floor(gPos), gCount - 2), t0 = Math.min(Math.floor(tPos), tCount - 2);
+    const gf = gPos - g0, tf = tPos - t0;
+    const p = table[g0][t0] * (1 - gf) * (1 - tf) + table[g0 + 1][t0] * gf * (1 - tf)
+      + table[g0][t0 + 1] * (1 - gf) * tf + table[g0 + 1][t0 + 1] * gf * tf;
+    // Extrapolate linearly in irradiance above the table
+    return g > G_MAX ? p * g / G_MAX : p;
+  };
+};
+
+const getMonthOfHour = (hour: number) => {
+  let day = Math.floor(hour / 24);
+  for (let month = 0; month < 12; month++) {
+    if (day < DAYS_IN_MONTH[month]) return month;
+    day -= DAYS_IN_MONTH[month];
+  }
+  return 11;
+};
+
+export interface HourlyConditions {
+  month: number;
+  sun: SolarPosition;
+  dniExtra: number;
+  irradiance: HorizontalIrradiance;
+  tempAir: number;
+  windSpeed: number;
+}
+
+export const buildHourlyConditions = (coordinates: { lat: number; lng: number }, options: SimulationOptions): HourlyConditions[] => {
+  const { weather, linkeTurbidity = DEFAULT_LINKE_TURBIDITY } = options;
+  const timeZone = weather ? weather.timeZone : Math.round(coordinates.lng / 15);
+  const hours = weather ? Math.min(weather.ghi.length, HOURS_PER_YEAR) : HOURS_PER_YEAR;
+
+  const conditions: HourlyConditions[] = [];
+  for (let hour = 0; hour < hours; hour++) {
+    // Mid-hour timestamp in local standard time, converted to UTC
+    const date = new Date(Date.UTC(SIMULATION_YEAR, 0, 1) + (hour + 0.5 - timeZone) * 3600000);
+    const sun = calculateSolarPosition(coordinates, date, weather ? { temperature: weather.tempAir[hour] } : {});
+    const dniExtra = calculateExtraterrestrialIrradiance(date);
+
+    conditions.push({
+      month: getMonthOfHour(hour),
+      sun,
+      dniExtra,
+      irradiance: weather
+        ? { ghi: weather.ghi[hour], dni: weather.dni[hour], dhi: weather.dhi[hour] }
+        : calculateClearSky(sun.zenith, dniExtra, linkeTurbidity),
+      tempAir: weather ? weather.tempAir[hour] : DEFAULT_AMBIENT_TEMPERATURE,
+      windSpeed: weather ? weather.windSpeed[hour] : DEFAULT_WIND_SPEED,
+    });
+  }
+  return conditions;
+};
+
+const simulateSegment = (
+  segment: FieldSegment,
+  module: Module,
+  inverter: Inverter | undefined,
+  conditions: HourlyConditions[],
+  options: SimulationOptions
+): { result: SegmentSimulationResult; monthlyEnergy: number[] } => {
+  const { albedo = DEFAULT_ALBEDO, dcLosses = DEFAULT_DC_LOSSES, transposition = 'perez' } = options;
+  const modulePower = createModulePowerModel(module);
+  const moduleArea = (module.width || 0) * (module.height || 0);
+  const moduleEfficiency = moduleArea > 0 && module.max_power_pmp ? module.max_power_pmp / (moduleArea * 1000) : 0.2;
+  const uc = THERMAL_UC[segment.rackingType || ''] ?? THERMAL_UC['Fixed Tilt'];
+  const inverterEfficiency = (inverter?.efficiency_euro || inverter?.efficiency_max || DEFAULT_INVERTER_EFFICIENCY) / 100;
+  const dcNameplate = (segment.moduleCount * (module.max_power_pmp || 0)) / 1000;
+  // As many inverters as the DC input limit calls for; together they clip at their combined max AC power
+  const inverterCount = inverter?.pmax_dc ? Math.max(1, Math.ceil(dcNameplate / inverter.pmax_dc)) : 1;
+  const acLimit = inverter?.pmax_ac ? inverter.pmax_ac * 1000 * inverterCount : Infinity; // in W
+
+  const monthlyEnergy = new Array(12).fill(0);
+  let poaInsolation = 0;
+  let clippingLoss = 0;
+
+  conditions.forEach(({ month, sun, dniExtra, irradiance, tempAir, windSpeed }) => {
+    if (sun.zenith >= 90 || irradiance.ghi <= 0) return;
+
+    const poa = calculatePlaneOfArrayIrradiance(segment, sun, irradiance, dniExtra, { model: transposition, albedo });
+    const cosAoi = Math.cos(poa.angleOfIncidence * DEG);
+    const effective = poa.beam * calculateIncidenceModifier(cosAoi) + poa.skyDiffuse + poa.groundReflected;
+
+    const cellTemperature = tempAir + effective * ABSORPTANCE * (1 - moduleEfficiency) / (uc + THERMAL_UV * windSpeed);
+    const dcPower = modulePower(effective, cellTemperature) * segment.moduleCount * (1 - dcLosses);
+
+    const acPower = dcPower * inverterEfficiency;
+    const clippedPower = Math.min(acPower, acLimit);
+    monthlyEnergy[month] += clippedPower / 1000;
+    clippingLoss += (acPower - clippedPower) / 1000;
+    poaInsolation += poa.total / 1000;
+  });
+
+  const annualEnergy = monthlyEnergy.reduce((sum, e) => sum + e, 0);
+  return {
+    result: {
+      segmentId: segment.id,
+      dcNameplate,
+      annualEnergy,
+      poaInsolation,
+      clippingLoss,
+    },
+    monthlyEnergy,
+  };
+};
+
+export const simulateDesign = (
+  design: Design,
+  modules: Module[],
+  inverters: Inverter[],
+  coordinates: { lat: number; lng: number },
+  options: SimulationOptions = {}
+): SimulationResult => {
+  const conditions = buildHourlyConditions(coordinates, options);
+  const monthlyEnergy = new Array(12).fill(0);
+  const segments: SegmentSimulationResult[] = [];
+
+  (design.field_segments || []).forEach(segment => {
+    const module = modules.find(m => m.id === segment.moduleId);
+    if (!module || segment.moduleCount <= 0) return;
+    const inverter = inverters.find(i => i.id === segment.inverterId);
+
+    const { result, monthlyEnergy: segmentMonthly } = simulateSegment(segment, module, inverter, conditions, options);
+    segmentMonthly.forEach((energy, month) => { monthlyEnergy[month] += energy; });
+    segments.push(result);
+  });
+
+  const annualEnergy = monthlyEnergy.reduce((sum, e) => sum + e, 0);
+  const dcNameplate = segments.reduce((sum, s) => sum + s.dcNameplate, 0);
+  // Reference yield weighted by each segment's nameplate: PR = E_ac / sum(H_poa / 1 kW/m² * P_dc)
+  const referenceEnergy = segments.reduce((sum, s) => sum + s.poaInsolation * s.dcNameplate, 0);
+
+  return {
+    weatherSource: options.weather ? options.weather.source : 'Clear sky (Ineichen)',
+    monthlyEnergy,
+    annualEnergy,
+    dcNameplate,
+    specificYield: dcNameplate > 0 ? annualEnergy / dcNameplate : 0,
+    performanceRatio: referenceEnergy > 0 ? annualEnergy / referenceEnergy : 0,
+    clippingLoss: segments.reduce((sum, s) => sum + s.clippingLoss, 0),
+    segments,
+  };
+};
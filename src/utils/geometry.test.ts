@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { LatLngTuple } from 'leaflet';
+import { FieldSegment, Module } from '../types/project';
+import { calculateAdvancedModuleLayout } from './geometry';
+import { createLocalFrame, LocalPoint } from './localProjection';
+import { calculateMinimumRowPitch, getCollectorLength } from './rowSpacing';
+
+const DEG = Math.PI / 180;
+const origin: LatLngTuple = [40, -105];
+const { toLatLng, toLocal } = createLocalFrame(origin);
+
+const module: Module = { id: 'module', created_at: '', model_name: 'Test 400', max_power_pmp: 400, width: 1, height: 2 };
+
+// Square of `size` meters centred on the origin
+const square = (size: number) =>
+  [{ x: -size / 2, y: -size / 2 }, { x: size / 2, y: -size / 2 }, { x: size / 2, y: size / 2 }, { x: -size / 2, y: size / 2 }].map(toLatLng);
+
+const makeSegment = (updates: Partial<FieldSegment>): FieldSegment => ({
+  id: 'segment',
+  points: square(30),
+  area: 0,
+  nameplate: 0,
+  moduleCount: 0,
+  moduleId: module.id,
+  azimuth: 180,
+  orientation: 'Portrait',
+  rackingType: 'Fixed Tilt',
+  moduleTilt: 0,
+  moduleSpacing: 0,
+  rowSpacing: 0,
+  rowSpacingMode: 'manual',
+  setback: 0,
+  ...updates,
+});
+
+const centreOf = (corners: LocalPoint[]) => ({
+  x: corners.reduce((sum, p) => sum + p.x, 0) / corners.length,
+  y: corners.reduce((sum, p) => sum + p.y, 0) / corners.length,
+});
+
+// Distinct positions of the modules' centres along `direction`, in meters
+const positionsAlong = (layout: LatLngTuple[][], direction: LocalPoint) => {
+  const positions = layout.map(corners => {
+    const centre = centreOf(corners.map(toLocal));
+    return Math.round((centre.x * direction.x + centre.y * direction.y) * 1e6) / 1e6;
+  });
+  return [...new Set(positions)].sort((a, b) => a - b);
+};
+
+// Extent of one module along `direction`, in meters
+const extentAlong = (corners: LatLngTuple[], direction: LocalPoint) => {
+  const along = corners.map(toLocal).map(p => p.x * direction.x + p.y * direction.y);
+  return Math.max(...along) - Math.min(...along);
+};
+
+describe('calculateAdvancedModuleLayout', () => {
+  it.each([180, 135])('runs rows across azimuth %i° with the module length down the facing direction', azimuth => {
+    const { layout } = calculateAdvancedModuleLayout(makeSegment({ azimuth }), module);
+    const facing = { x: Math.sin(azimuth * DEG), y: Math.cos(azimuth * DEG) };
+    const rowAxis = { x: -facing.y, y: facing.x };
+
+    expect(layout.length).toBeGreaterThan(0);
+    expect(extentAlong(layout[0], facing)).toBeCloseTo(2, 3);
+    expect(extentAlong(layout[0], rowAxis)).toBeCloseTo(1, 3);
+  });
+
+  it('shortens only the down-slope dimension on a pitched roof', () => {
+    const { layout } = calculateAdvancedModuleLayout(makeSegment({ rackingType: 'Flush Mount', moduleTilt: 60 }), module);
+
+    expect(extentAlong(layout[0], { x: 0, y: -1 })).toBeCloseTo(2 * Math.cos(60 * DEG), 3);
+    expect(extentAlong(layout[0], { x: 1, y: 0 })).toBeCloseTo(1, 3);
+  });
+
+  it.each([180, 150])('spaces solstice rows at azimuth %i° by the minimum row pitch along the facing direction', azimuth => {
+    const segment = makeSegment({ azimuth, moduleTilt: 25, rowSpacingMode: 'solstice', shadeFreeStart: 9, shadeFreeEnd: 15 });
+    const { layout } = calculateAdvancedModuleLayout(segment, module);
+    const facing = { x: Math.sin(azimuth * DEG), y: Math.cos(azimuth * DEG) };
+    const [lat, lng] = segment.points[0];
+    const pitch = calculateMinimumRowPitch(getCollectorLength(segment, module), 25, azimuth, { lat, lng }, 9, 15)!;
+
+    const rows = positionsAlong(layout, facing);
+    expect(rows.length).toBeGreaterThan(2);
+    rows.slice(1).forEach((position, i) => {
+      expect(position - rows[i]).toBeCloseTo(pitch, 3);
+    });
+  });
+});
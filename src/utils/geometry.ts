@@ -1,13 +1,33 @@
-import { Map, latLng, LatLngTuple, Point, bounds } from 'leaflet';
-import { FieldSegment, Module } from '../types/project';
+import { Map, LatLngTuple } from 'leaflet';
+import { FieldSegment, LayoutOptimization, LayoutStrategy, Module, ModuleOrientation, Obstruction } from '../types/project';
+import { getObstructionPolygon } from './obstructions';
+import { calculateRowPitch } from './rowSpacing';
+import { limitLayoutToNameplate } from './nameplateLimit';
+import { applyModuleOverrides } from './moduleEditing';
+import { LocalPoint, createLocalFrame, getPolygonCenter } from './localProjection';
+import { isPointInRings, offsetPolygonInward } from './polygonOffset';
 
 const FEET_PER_METER = 3.28084;
+const MAX_ROOF_PITCH = 85; // degrees
+const ROW_OFFSET_STEPS = 6; // Start positions tried per strategy when optimising
+const PLACEMENT_TOLERANCE = 0.001; // meters a module may touch the buildable edge by
+
+const DEG = Math.PI / 180;
+
+// Size of one row of racking tables in the layout's rotated frame, in meters.
+interface RowGeometry {
+  moduleWidth: number;
+  moduleHeight: number;
+  tableWidth: number;
+  tableHeight: number;
+  stepX: number;
+  stepY: number;
+}
 
-export const calculateDistanceInFeet = (p1: LatLngTuple, p2: LatLngTuple, map: Map): number => {
-  const latLng1 = latLng(p1);
-  const latLng2 = latLng(p2);
-  const distanceInMeters = map.distance(latLng1, latLng2);
-  return distanceInMeters * FEET_PER_METER;
+// Ground distance between two nearby points, measured on their local tangent plane.
+export const calculateDistanceInFeet = (p1: LatLngTuple, p2: LatLngTuple): number => {
+  const { x, y } = createLocalFrame(p1).toLocal(p2);
+  return Math.hypot(x, y) * FEET_PER_METER;
 };
 
 export const getMidpoint = (p1: LatLngTuple, p2: LatLngTuple): LatLngTuple => {
@@ -31,28 +51,50 @@ export const getSnappedPoint = (startPoint: LatLngTuple, endPoint: LatLngTuple,
     y: startContainerPoint.y + distance * Math.sin(snappedAngleRad),
   };
 
-  const snappedLatLng = map.containerPointToLatLng(new Point(snappedContainerPoint.x, snappedContainerPoint.y));
+  const snappedLatLng = map.containerPointToLatLng([snappedContainerPoint.x, snappedContainerPoint.y]);
   return [snappedLatLng.lat, snappedLatLng.lng];
 };
 
-export const calculatePolygonAreaMeters = (points: LatLngTuple[], map: Map): number => {
+// Area of the outline less any holes inside it.
+export const calculatePolygonAreaMeters = (points: LatLngTuple[], holes: LatLngTuple[][] = []): number => {
   if (points.length < 3) return 0;
-  const projectedPoints = points.map(p => map.project(latLng(p)));
-  let area = 0;
-  for (let i = 0; i < projectedPoints.length; i++) {
-    const p1 = projectedPoints[i];
-    const p2 = projectedPoints[(i + 1) % projectedPoints.length];
-    area += p1.x * p2.y - p2.x * p1.y;
-  }
-  return Math.abs(area / 2);
+  const { toLocal } = createLocalFrame(getPolygonCenter(points));
+  const ringArea = (ring: LatLngTuple[]) => {
+    const localPoints = ring.map(toLocal);
+    let area = 0;
+    for (let i = 0; i < localPoints.length; i++) {
+      const p1 = localPoints[i];
+      const p2 = localPoints[(i + 1) % localPoints.length];
+      area += p1.x * p2.y - p2.x * p1.y;
+    }
+    return Math.abs(area / 2);
+  };
+  const holeArea = holes.filter(hole => hole.length > 2).reduce((sum, hole) => sum + ringArea(hole), 0);
+  return Math.max(0, ringArea(points) - holeArea);
 };
 
-export const calculatePolygonArea = (points: LatLngTuple[], map: Map): number => {
-    const areaMeters = calculatePolygonAreaMeters(points, map);
+export const calculatePolygonArea = (points: LatLngTuple[], holes: LatLngTuple[][] = []): number => {
+    const areaMeters = calculatePolygonAreaMeters(points, holes);
     return areaMeters * FEET_PER_METER * FEET_PER_METER;
 };
 
-export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+// Slope of a Flush Mount roof plane in degrees. `spanRise` is the unitless ratio of the building's span (eave to
+// eave) to the ridge's rise above the eaves, e.g. 4 for a 40 ft span rising 10 ft. Each side of a gable climbs the
+// rise over half the span, so its slope is atan(rise / (span / 2)) = atan(2 / spanRise). Without it the module tilt
+// is taken as the roof pitch.
+export const getRoofPitch = (segment: FieldSegment): number => {
+  if (segment.rackingType !== 'Flush Mount') return 0;
+  const pitch = segment.spanRise && segment.spanRise > 0
+    ? Math.atan(2 / segment.spanRise) * 180 / Math.PI
+    : segment.moduleTilt || 0;
+  return Math.max(0, Math.min(MAX_ROOF_PITCH, pitch));
+};
+
+// True sloped area of a segment in ft²; the drawn polygon is its plan-view footprint.
+export const calculateSegmentArea = (segment: FieldSegment): number =>
+  calculatePolygonArea(segment.points, segment.holes) / Math.cos(getRoofPitch(segment) * DEG);
+
+export const isPointInPolygon = (point: LocalPoint, polygon: LocalPoint[]): boolean => {
     let isInside = false;
     for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
         const xi = polygon[i].x, yi = polygon[i].y;
@@ -64,97 +106,74 @@ export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
     return isInside;
 };
 
-const pointToLineSegmentDistance = (p: Point, a: Point, b: Point): number => {
-    const l2 = a.distanceTo(b) ** 2;
-    if (l2 === 0) return p.distanceTo(a);
+const pointToLineSegmentDistance = (p: LocalPoint, a: LocalPoint, b: LocalPoint): number => {
+    const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    if (l2 === 0) return Math.hypot(p.x - a.x, p.y - a.y);
     let t = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2;
     t = Math.max(0, Math.min(1, t));
-    const projection = new Point(a.x + t * (b.x - a.x), a.y + t * (b.y - a.y));
-    return p.distanceTo(projection);
+    return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
 };
 
-const getPixelsPerMeter = (map: Map): number => {
-    const center = map.getCenter();
-    const eastPoint = latLng(center.lat, center.lng + 0.0001);
-    const distanceMeters = center.distanceTo(eastPoint);
-    const centerPx = map.latLngToLayerPoint(center);
-    const eastPx = map.latLngToLayerPoint(eastPoint);
-    const distancePixels = centerPx.distanceTo(eastPx);
-    return distancePixels / distanceMeters;
-}
-
-const lineIntersection = (p1: Point, p2: Point, p3: Point, p4: Point): Point | null => {
-    const d = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
-    if (Math.abs(d) < 1e-6) return null;
-
-    const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / d;
-    return new Point(p1.x + t * (p2.x - p1.x), p1.y + t * (p2.y - p1.y));
+const segmentsIntersect = (a1: LocalPoint, a2: LocalPoint, b1: LocalPoint, b2: LocalPoint): boolean => {
+    const side = (p: LocalPoint, q: LocalPoint, r: LocalPoint) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+    return side(a1, a2, b1) * side(a1, a2, b2) < 0 && side(b1, b2, a1) * side(b1, b2, a2) < 0;
 };
 
-export const calculateInsetPolygon = (points: LatLngTuple[], setbackFeet: number, map: Map): LatLngTuple[] => {
-    if (points.length < 3 || setbackFeet <= 0) return [];
-
-    const pixelsPerMeter = getPixelsPerMeter(map);
-    const setbackPx = setbackFeet / FEET_PER_METER * pixelsPerMeter;
-
-    const containerPoints = points.map(p => map.latLngToContainerPoint(latLng(p)));
-
-    const insetLines: {p1: Point, p2: Point}[] = [];
-
-    for (let i = 0; i < containerPoints.length; i++) {
-        const p1 = containerPoints[i];
-        const p2 = containerPoints[(i + 1) % containerPoints.length];
-
-        const dx = p2.x - p1.x;
-        const dy = p2.y - p1.y;
-        const normalVec = new Point(-dy, dx);
-        const dist = normalVec.distanceTo(new Point(0,0));
-        const normal = dist > 0 ? normalVec.divideBy(dist) : new Point(0,0);
-
-        const testPoint = p1.add(normal);
-        if (!isPointInPolygon(testPoint, containerPoints)) {
-            normal.x = -normal.x;
-            normal.y = -normal.y;
+// True if two polygons overlap or come closer than `distance` to each other.
+const arePolygonsWithinDistance = (a: LocalPoint[], b: LocalPoint[], distance: number): boolean => {
+    if (a.some(p => isPointInPolygon(p, b)) || b.some(p => isPointInPolygon(p, a))) return true;
+    for (let i = 0; i < a.length; i++) {
+        const a1 = a[i], a2 = a[(i + 1) % a.length];
+        for (let j = 0; j < b.length; j++) {
+            const b1 = b[j], b2 = b[(j + 1) % b.length];
+            if (segmentsIntersect(a1, a2, b1, b2)) return true;
+            if (Math.min(
+                pointToLineSegmentDistance(a1, b1, b2),
+                pointToLineSegmentDistance(a2, b1, b2),
+                pointToLineSegmentDistance(b1, a1, a2),
+                pointToLineSegmentDistance(b2, a1, a2)
+            ) < distance) return true;
         }
-
-        const p1_inset = p1.add(normal.multiplyBy(setbackPx));
-        const p2_inset = p2.add(normal.multiplyBy(setbackPx));
-        insetLines.push({ p1: p1_inset, p2: p2_inset });
     }
-
-    const insetPoints: Point[] = [];
-    for (let i = 0; i < insetLines.length; i++) {
-        const line1 = insetLines[i];
-        const line2 = insetLines[(i + 1) % insetLines.length];
-        const intersection = lineIntersection(line1.p1, line1.p2, line2.p1, line2.p2);
-        if (intersection) {
-            insetPoints.push(intersection);
-        } else {
-            // Fallback for parallel lines - this is a simplification
-            insetPoints.push(line1.p2);
-        }
-    }
-
-    return insetPoints.map(p => {
-        const latLng = map.containerPointToLatLng(p);
-        return [latLng.lat, latLng.lng];
-    });
+    return false;
 };
 
+// Buildable area left after pulling every edge in by the setback and growing every hole by the hole setback.
+// Concave roofs can split into several polygons, and a roof narrower than twice the setback leaves none. The
+// rings are even-odd, so grown holes come back as inner rings.
+export const calculateInsetPolygons = (
+    points: LatLngTuple[],
+    setbackFeet: number,
+    holes: LatLngTuple[][] = [],
+    holeSetbackFeet = setbackFeet
+): LatLngTuple[][] => {
+    if (points.length < 3 || (setbackFeet <= 0 && holeSetbackFeet <= 0)) return [];
+
+    const { toLocal, toLatLng } = createLocalFrame(getPolygonCenter(points));
+    const rings = [points, ...holes].map(ring => ring.map(toLocal));
+    return offsetPolygonInward(rings, setbackFeet / FEET_PER_METER, holeSetbackFeet / FEET_PER_METER)
+        .map(ring => ring.map(toLatLng));
+};
 
 export const calculateAdvancedModuleLayout = (
   segment: FieldSegment,
   module: Module,
-  map: Map
-): { layout: LatLngTuple[][], count: number, nameplate: number, azimuth: number } => {
+  obstructions: Obstruction[] = [],
+  maxNameplate = segment.maxNameplate
+): { layout: LatLngTuple[][], count: number, nameplate: number, azimuth: number, optimization?: LayoutOptimization } => {
   const {
     points: polygon,
     orientation = 'Portrait',
     azimuth: segmentAzimuth,
-    rowSpacing = 2,
     moduleSpacing = 0.1,
     setback = 4,
+    holes = [],
+    frameSpacing = 0,
+    alignment = 'center',
+    layoutMode = 'single',
   } = segment;
+  const frameSizeUp = Math.max(1, Math.floor(segment.frameSizeUp || 1));
+  const frameSizeWide = Math.max(1, Math.floor(segment.frameSizeWide || 1));
 
   const { width: moduleWidthMeters, height: moduleHeightMeters, max_power_pmp: modulePower } = module;
 
@@ -162,126 +181,244 @@ export const calculateAdvancedModuleLayout = (
     return { layout: [], count: 0, nameplate: 0, azimuth: segment.azimuth };
   }
 
-  const layerPolygon = polygon.map(p => map.latLngToLayerPoint(latLng(p)));
-
-  let longestEdgeIndex = -1, maxDistSq = 0;
-  for (let i = 0; i < layerPolygon.length; i++) {
-    const p1 = layerPolygon[i];
-    const p2 = layerPolygon[(i + 1) % layerPolygon.length];
-    const distSq = p1.distanceTo(p2);
-    if (distSq > maxDistSq) {
-      maxDistSq = distSq;
+  const { toLocal, toLatLng } = createLocalFrame(getPolygonCenter(polygon));
+  const localPolygon = polygon.map(toLocal);
+
+  // Without an azimuth, modules face away from the longest edge towards the equator
+  let longestEdgeIndex = -1, maxDist = 0;
+  for (let i = 0; i < localPolygon.length; i++) {
+    const p1 = localPolygon[i];
+    const p2 = localPolygon[(i + 1) % localPolygon.length];
+    const dist = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    if (dist > maxDist) {
+      maxDist = dist;
       longestEdgeIndex = i;
     }
   }
 
-  const p1 = layerPolygon[longestEdgeIndex];
-  const p2 = layerPolygon[(longestEdgeIndex + 1) % layerPolygon.length];
-  const defaultAngleRad = Math.atan2(p2.y - p1.y, p2.x - p1.x);
-  const defaultAzimuth = (90 - defaultAngleRad * 180 / Math.PI + 360) % 360;
+  const p1 = localPolygon[longestEdgeIndex];
+  const p2 = localPolygon[(longestEdgeIndex + 1) % localPolygon.length];
+  const edgeNormal = { x: p2.y - p1.y, y: -(p2.x - p1.x) };
+  const towardsEquator = polygon[0][0] >= 0 ? -1 : 1;
+  const defaultFacing = Math.sign(edgeNormal.y) === towardsEquator ? edgeNormal : { x: -edgeNormal.x, y: -edgeNormal.y };
+  const defaultAzimuth = (Math.atan2(defaultFacing.x, defaultFacing.y) / DEG + 360) % 360;
   
   const finalAzimuth = segmentAzimuth ?? defaultAzimuth;
-  const angle = (90 - finalAzimuth) * (Math.PI / 180);
-
-  const cos = Math.cos(-angle), sin = Math.sin(-angle);
-  const origin = layerPolygon[0];
-  const rotatedPolygon = layerPolygon.map(p => new Point(
-    (p.x - origin.x) * cos - (p.y - origin.y) * sin,
-    (p.x - origin.x) * sin + (p.y - origin.y) * cos
-  ));
-
-  const rotatedBounds = bounds(rotatedPolygon);
-  
-  const pixelsPerMeter = getPixelsPerMeter(map);
 
-  const moduleWidth = orientation === 'Portrait' ? moduleWidthMeters : moduleHeightMeters;
-  const moduleHeight = orientation === 'Portrait' ? moduleHeightMeters : moduleWidthMeters;
-
-  const moduleWidthPx = moduleWidth * pixelsPerMeter;
-  const moduleHeightPx = moduleHeight * pixelsPerMeter;
-  const rowSpacingPx = (rowSpacing / FEET_PER_METER) * pixelsPerMeter;
-  const moduleSpacingPx = (moduleSpacing / FEET_PER_METER) * pixelsPerMeter;
-  const setbackPx = (setback / FEET_PER_METER) * pixelsPerMeter;
-
-  const stepX = moduleWidthPx + moduleSpacingPx;
-  const stepY = moduleHeightPx + rowSpacingPx;
+  // Rotated frame: x runs along the rows, y points the way the modules face (down the tilt), matching how
+  // transposition, row spacing, stringing and the nameplate trim read the azimuth
+  const facing = { x: Math.sin(finalAzimuth * DEG), y: Math.cos(finalAzimuth * DEG) };
+  const rowAxis = { x: -facing.y, y: facing.x };
+  const toRotated = (p: LocalPoint): LocalPoint => ({
+    x: p.x * rowAxis.x + p.y * rowAxis.y,
+    y: p.x * facing.x + p.y * facing.y,
+  });
+
+  const setbackMeters = setback / FEET_PER_METER;
+  const holeSetbackMeters = (segment.holeSetback ?? setback) / FEET_PER_METER;
+  // Buildable area after the setbacks, possibly several rings (even-odd) or none at all
+  const buildableRings = offsetPolygonInward([localPolygon, ...holes.map(hole => hole.map(toLocal))], setbackMeters, holeSetbackMeters)
+    .map(ring => ring.map(toRotated));
+  if (buildableRings.length === 0) {
+    return { layout: [], count: 0, nameplate: 0, azimuth: finalAzimuth };
+  }
+  const ringEdges = buildableRings.flatMap(ring => ring.map((p, i) => [p, ring[(i + 1) % ring.length]]));
+
+  const minY = Math.min(...buildableRings.flatMap(ring => ring.map(p => p.y)));
+  const maxY = Math.max(...buildableRings.flatMap(ring => ring.map(p => p.y)));
+
+  // On a pitched roof only lengths measured down the slope (the frame's y axis) shrink in plan view; lengths along
+  // the rows stay as they are
+  const slopeScale = Math.cos(getRoofPitch(segment) * DEG);
+
+  const moduleGap = moduleSpacing / FEET_PER_METER;
+  const moduleGapUp = moduleGap * slopeScale;
+  // Tables never sit closer than modules within one
+  const frameGap = Math.max(frameSpacing, moduleSpacing) / FEET_PER_METER;
+
+  // Modules are placed in racking tables of frameSizeUp x frameSizeWide
+  const getRowGeometry = (rowOrientation: ModuleOrientation): RowGeometry => {
+    const moduleWidth = rowOrientation === 'Portrait' ? moduleWidthMeters : moduleHeightMeters;
+    const moduleHeight = (rowOrientation === 'Portrait' ? moduleHeightMeters : moduleWidthMeters) * slopeScale;
+    const { rowSpacing } = calculateRowPitch({ ...segment, orientation: rowOrientation }, module);
+
+    const tableWidth = frameSizeWide * moduleWidth + (frameSizeWide - 1) * moduleGap;
+    const tableHeight = frameSizeUp * moduleHeight + (frameSizeUp - 1) * moduleGapUp;
+    return {
+      moduleWidth,
+      moduleHeight,
+      tableWidth,
+      tableHeight,
+      stepX: tableWidth + frameGap,
+      stepY: tableHeight + (rowSpacing / FEET_PER_METER) * slopeScale,
+    };
+  };
+  const rowGeometry = {
+    Portrait: getRowGeometry('Portrait'),
+    Landscape: getRowGeometry('Landscape'),
+  };
 
-  const moduleLayout: LatLngTuple[][] = [];
-  let count = 0;
+  // Obstructions and their keepout buffers, in the same rotated frame as the modules
+  const keepouts = obstructions
+    .map(o => ({
+      polygon: getObstructionPolygon(o).map(p => toRotated(toLocal(p))),
+      buffer: (o.buffer || 0) / FEET_PER_METER,
+    }))
+    .filter(k => k.polygon.length > 2);
 
-  const getIntersections = (y: number, poly: Point[]): number[] => {
+  // Stretches of the line at `y` that lie inside the buildable area, as [start, end] pairs.
+  const getSpans = (y: number): [number, number][] => {
     const intersections: number[] = [];
-    for (let i = 0; i < poly.length; i++) {
-        const p1 = poly[i];
-        const p2 = poly[(i + 1) % poly.length];
-        if (p1.y === p2.y) continue;
+    ringEdges.forEach(([p1, p2]) => {
+        if (p1.y === p2.y) return;
         if (Math.min(p1.y, p2.y) <= y && Math.max(p1.y, p2.y) > y) {
-            const x = (y - p1.y) * (p2.x - p1.x) / (p2.y - p1.y) + p1.x;
-            intersections.push(x);
+            intersections.push((y - p1.y) * (p2.x - p1.x) / (p2.y - p1.y) + p1.x);
         }
+    });
+    intersections.sort((a, b) => a - b);
+    const spans: [number, number][] = [];
+    for (let i = 0; i + 1 < intersections.length; i += 2) {
+        spans.push([intersections[i], intersections[i + 1]]);
     }
-    return intersections.sort((a, b) => a - b);
+    return spans;
   };
 
-  for (let y = rotatedBounds.min!.y; y < rotatedBounds.max!.y; y += stepY) {
-    const y_bottom = y + moduleHeightPx;
-    if (y_bottom > rotatedBounds.max!.y) continue;
+  const isModulePlaceable = (moduleCorners: LocalPoint[]): boolean => {
+    // Shrunk slightly so a module flush against the buildable edge still counts as inside
+    const centre = {
+        x: moduleCorners.reduce((sum, p) => sum + p.x, 0) / moduleCorners.length,
+        y: moduleCorners.reduce((sum, p) => sum + p.y, 0) / moduleCorners.length,
+    };
+    const shrunk = moduleCorners.map(p => ({
+        x: p.x + Math.sign(centre.x - p.x) * PLACEMENT_TOLERANCE,
+        y: p.y + Math.sign(centre.y - p.y) * PLACEMENT_TOLERANCE,
+    }));
+    if (!shrunk.every(corner => isPointInRings(corner, buildableRings))) return false;
+    // Corners alone miss notches and small holes reaching into the module
+    if (ringEdges.some(([a, b]) => shrunk.some((p, i) => segmentsIntersect(p, shrunk[(i + 1) % shrunk.length], a, b)))) return false;
+    if (buildableRings.some(ring => ring.some(p => isPointInPolygon(p, shrunk)))) return false;
+    return !keepouts.some(k => arePolygonsWithinDistance(moduleCorners, k.polygon, k.buffer));
+  };
 
-    const top_intersections = getIntersections(y, rotatedPolygon);
-    const bottom_intersections = getIntersections(y_bottom, rotatedPolygon);
+  const toLatLngTuple = (p: LocalPoint): LatLngTuple => toLatLng({
+    x: p.x * rowAxis.x + p.y * facing.x,
+    y: p.x * rowAxis.y + p.y * facing.y,
+  });
+
+  // Modules (rotated frame) of the tables that fit in one row whose top edge is at `y`.
+  const fillRow = (y: number, geometry: RowGeometry): LocalPoint[][] => {
+    const y_bottom = y + geometry.tableHeight;
+    if (y_bottom > maxY + PLACEMENT_TOLERANCE) return [];
+
+    // A concave or split buildable area gives several runs of tables within one row. Spans are taken just inside the
+    // row so a row flush against a horizontal edge isn't lost.
+    const runs: [number, number][] = [];
+    getSpans(y + PLACEMENT_TOLERANCE).forEach(([topStart, topEnd]) => {
+        getSpans(y_bottom - PLACEMENT_TOLERANCE).forEach(([bottomStart, bottomEnd]) => {
+            const start = Math.max(topStart, bottomStart);
+            const end = Math.min(topEnd, bottomEnd);
+            if (end > start) runs.push([start, end]);
+        });
+    });
+    return runs.flatMap(([start_x, end_x]) => fillRun(y, start_x, end_x, geometry));
+  };
 
-    if (top_intersections.length < 2 || bottom_intersections.length < 2) {
-        continue;
+  // Modules of the tables that fit between `start_x` and `end_x` in the row whose top edge is at `y`.
+  const fillRun = (y: number, start_x: number, end_x: number, geometry: RowGeometry): LocalPoint[][] => {
+    const { moduleWidth, moduleHeight, stepX } = geometry;
+    // With the tolerance, rounding (projection round trips are off by nanometres) cannot drop a table that fits exactly
+    const tablesInRow = Math.floor((end_x - start_x + frameGap + PLACEMENT_TOLERANCE) / stepX);
+    if (tablesInRow < 1) return [];
+
+    // Leftover row length is placed according to the segment's alignment
+    const leftover = end_x - start_x - (tablesInRow * stepX - frameGap);
+    let rowStart = start_x;
+    let tableStep = stepX;
+    if (alignment === 'center' || (alignment === 'justify' && tablesInRow === 1)) {
+        rowStart += leftover / 2;
+    } else if (alignment === 'right') {
+        rowStart += leftover;
+    } else if (alignment === 'justify') {
+        tableStep += leftover / (tablesInRow - 1);
     }
-    
-    const start_x = Math.max(top_intersections[0], bottom_intersections[0]);
-    const end_x = Math.min(top_intersections[top_intersections.length - 1], bottom_intersections[bottom_intersections.length - 1]);
-
-    for (let x = start_x; x + moduleWidthPx <= end_x; x += stepX) {
-        const moduleCorners = [
-            new Point(x, y),
-            new Point(x + moduleWidthPx, y),
-            new Point(x + moduleWidthPx, y + moduleHeightPx),
-            new Point(x, y + moduleHeightPx),
-        ];
-
-        let isModuleFullyValid = true;
-        for (const corner of moduleCorners) {
-            if (!isPointInPolygon(corner, rotatedPolygon)) {
-                isModuleFullyValid = false;
-                break;
-            }
-            let isCornerTooClose = false;
-            for (let i = 0; i < rotatedPolygon.length; i++) {
-                const p1 = rotatedPolygon[i];
-                const p2 = rotatedPolygon[(i + 1) % rotatedPolygon.length];
-                if (pointToLineSegmentDistance(corner, p1, p2) < setbackPx) {
-                    isCornerTooClose = true;
-                    break;
-                }
-            }
-            if (isCornerTooClose) {
-                isModuleFullyValid = false;
-                break;
+
+    const rowModules: LocalPoint[][] = [];
+    for (let t = 0; t < tablesInRow; t++) {
+        const x = rowStart + t * tableStep;
+        const table: LocalPoint[][] = [];
+        for (let up = 0; up < frameSizeUp; up++) {
+            for (let wide = 0; wide < frameSizeWide; wide++) {
+                const moduleX = x + wide * (moduleWidth + moduleGap);
+                const moduleY = y + up * (moduleHeight + moduleGapUp);
+                table.push([
+                    { x: moduleX, y: moduleY },
+                    { x: moduleX + moduleWidth, y: moduleY },
+                    { x: moduleX + moduleWidth, y: moduleY + moduleHeight },
+                    { x: moduleX, y: moduleY + moduleHeight },
+                ]);
             }
         }
 
-        if (isModuleFullyValid) {
-            const cos_a = Math.cos(angle), sin_a = Math.sin(angle);
-            const originalPoints = moduleCorners.map(p => {
-                const rotatedX = p.x * cos_a - p.y * sin_a;
-                const rotatedY = p.x * sin_a + p.y * cos_a;
-                return new Point(rotatedX + origin.x, rotatedY + origin.y);
-            });
-            moduleLayout.push(originalPoints.map(p => {
-                const latLng = map.layerPointToLatLng(p);
-                return [latLng.lat, latLng.lng];
-            }));
-            count++;
-        }
+        // A table that doesn't fully fit is dropped as a whole
+        if (table.every(isModulePlaceable)) rowModules.push(...table);
     }
+    return rowModules;
+  };
+
+  // Fills the segment row by row from `offset` meters behind its back edge. Mixed fills use portrait rows and fall back to
+  // a landscape row wherever no portrait table fits.
+  const fillSegment = (strategy: LayoutStrategy, offset: number): LocalPoint[][] => {
+    const modules: LocalPoint[][] = [];
+    let y = minY + offset;
+    while (y < maxY) {
+      if (strategy !== 'Mixed') {
+        modules.push(...fillRow(y, rowGeometry[strategy]));
+        y += rowGeometry[strategy].stepY;
+        continue;
+      }
+      const portraitRow = fillRow(y, rowGeometry.Portrait);
+      if (portraitRow.length > 0) {
+        modules.push(...portraitRow);
+        y += rowGeometry.Portrait.stepY;
+        continue;
+      }
+      modules.push(...fillRow(y, rowGeometry.Landscape));
+      y += rowGeometry.Landscape.stepY;
+    }
+    return modules;
+  };
+
+  let best = fillSegment(orientation, 0);
+  let optimization: LayoutOptimization | undefined;
+
+  if (layoutMode === 'optimized') {
+    const singleOrientationCount = best.length;
+    optimization = { strategy: orientation, rowOffset: 0, count: singleOrientationCount, singleOrientationCount };
+    const strategies: LayoutStrategy[] = ['Portrait', 'Landscape', 'Mixed'];
+    strategies.forEach(strategy => {
+      const sweep = strategy === 'Landscape' ? rowGeometry.Landscape.stepY : rowGeometry.Portrait.stepY;
+      for (let i = 0; i < ROW_OFFSET_STEPS; i++) {
+        const offset = (sweep * i) / ROW_OFFSET_STEPS;
+        const candidate = fillSegment(strategy, offset);
+        if (candidate.length > best.length) {
+          best = candidate;
+          optimization = {
+            strategy,
+            rowOffset: offset * FEET_PER_METER,
+            count: candidate.length,
+            singleOrientationCount,
+          };
+        }
+      }
+    });
   }
 
+  let layout = applyModuleOverrides(best.map(corners => corners.map(toLatLngTuple)), segment.moduleOverrides);
+  if (maxNameplate !== undefined && maxNameplate >= 0) {
+    layout = limitLayoutToNameplate(layout, { ...segment, azimuth: finalAzimuth }, modulePower, maxNameplate);
+  }
+
+  const count = layout.length;
   const nameplate = (count * modulePower) / 1000;
-  return { layout: moduleLayout, count, nameplate, azimuth: finalAzimuth };
-};
\ No newline at end of file
+  return { layout, count, nameplate, azimuth: finalAzimuth, optimization };
+};
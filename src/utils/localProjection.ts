@@ -0,0 +1,70 @@
+import { LatLngTuple } from 'leaflet';
+
+// East-north-up tangent plane on the WGS84 ellipsoid. Site geometry is done in meters on this plane so results
+// don't depend on a map view; at the scale of a site the distortion is well under a millimetre.
+
+const DEG = Math.PI / 180;
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+export interface LocalPoint {
+  x: number; // meters east
+  y: number; // meters north
+}
+
+interface Ecef {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const toEcef = (lat: number, lng: number): Ecef => {
+  const phi = lat * DEG, lambda = lng * DEG;
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(phi) ** 2);
+  return {
+    x: n * Math.cos(phi) * Math.cos(lambda),
+    y: n * Math.cos(phi) * Math.sin(lambda),
+    z: n * (1 - WGS84_E2) * Math.sin(phi),
+  };
+};
+
+// Geodetic latitude/longitude of an ECEF point (Bowring's iteration converges in a couple of steps near the surface).
+const fromEcef = ({ x, y, z }: Ecef): LatLngTuple => {
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - WGS84_E2));
+  for (let i = 0; i < 3; i++) {
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(phi) ** 2);
+    phi = Math.atan2(z + WGS84_E2 * n * Math.sin(phi), p);
+  }
+  return [phi / DEG, Math.atan2(y, x) / DEG];
+};
+
+export const createLocalFrame = (origin: LatLngTuple) => {
+  const phi = origin[0] * DEG, lambda = origin[1] * DEG;
+  const sinPhi = Math.sin(phi), cosPhi = Math.cos(phi);
+  const sinLambda = Math.sin(lambda), cosLambda = Math.cos(lambda);
+  const o = toEcef(origin[0], origin[1]);
+
+  return {
+    toLocal: (p: LatLngTuple): LocalPoint => {
+      const e = toEcef(p[0], p[1]);
+      const dx = e.x - o.x, dy = e.y - o.y, dz = e.z - o.z;
+      return {
+        x: -sinLambda * dx + cosLambda * dy,
+        y: -sinPhi * cosLambda * dx - sinPhi * sinLambda * dy + cosPhi * dz,
+      };
+    },
+    toLatLng: (p: LocalPoint): LatLngTuple => fromEcef({
+      x: o.x - sinLambda * p.x - sinPhi * cosLambda * p.y,
+      y: o.y + cosLambda * p.x - sinPhi * sinLambda * p.y,
+      z: o.z + cosPhi * p.y,
+    }),
+  };
+};
+
+// Vertex average, used as the tangent point for a polygon's local frame.
+export const getPolygonCenter = (points: LatLngTuple[]): LatLngTuple => [
+  points.reduce((sum, p) => sum + p[0], 0) / points.length,
+  points.reduce((sum, p) => sum + p[1], 0) / points.length,
+];
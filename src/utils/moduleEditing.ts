@@ -0,0 +1,94 @@
+import { LatLngTuple } from 'leaflet';
+import { ModuleOverrides } from '../types/project';
+import { LocalPoint, createLocalFrame } from './localProjection';
+import { getModuleCentroid } from './stringing';
+
+const MATCH_TOLERANCE = 0.3; // meters between module centres that are treated as the same module
+const SAME_MODULE = 0.05; // meters; a layout module this close to an added one is that added module
+
+export const EMPTY_OVERRIDES: ModuleOverrides = { removed: [], added: [] };
+
+const distanceBetween = (a: LatLngTuple, b: LatLngTuple) => {
+  const { toLocal } = createLocalFrame(a);
+  const p = toLocal(b);
+  return Math.hypot(p.x, p.y);
+};
+
+const findAdded = (overrides: ModuleOverrides, modulePolygon: LatLngTuple[]) => {
+  const centre = getModuleCentroid(modulePolygon);
+  return overrides.added.findIndex(added => distanceBetween(getModuleCentroid(added), centre) < SAME_MODULE);
+};
+
+// Automatic layout with the designer's deletions taken out and their own modules added.
+export const applyModuleOverrides = (layout: LatLngTuple[][], overrides?: ModuleOverrides): LatLngTuple[][] => {
+  if (!overrides || (overrides.removed.length === 0 && overrides.added.length === 0)) return layout;
+  const kept = layout.filter(modulePolygon => {
+    const centre = getModuleCentroid(modulePolygon);
+    return !overrides.removed.some(removed => distanceBetween(removed, centre) < MATCH_TOLERANCE);
+  });
+  return [...kept, ...overrides.added];
+};
+
+export const removeModule = (overrides: ModuleOverrides, modulePolygon: LatLngTuple[]): ModuleOverrides => {
+  const addedIndex = findAdded(overrides, modulePolygon);
+  if (addedIndex !== -1) {
+    return { ...overrides, added: overrides.added.filter((_, i) => i !== addedIndex) };
+  }
+  return { ...overrides, removed: [...overrides.removed, getModuleCentroid(modulePolygon)] };
+};
+
+// Moving a module takes it off the automatic grid: it is removed there and re-added at its new position.
+export const moveModules = (overrides: ModuleOverrides, modulePolygons: LatLngTuple[][], dLat: number, dLng: number): ModuleOverrides => {
+  const withoutMoved = modulePolygons.reduce(removeModule, overrides);
+  const moved = modulePolygons.map(polygon => polygon.map(([lat, lng]) => [lat + dLat, lng + dLng] as LatLngTuple));
+  return { ...withoutMoved, added: [...withoutMoved.added, ...moved] };
+};
+
+export const addModule = (overrides: ModuleOverrides, modulePolygon: LatLngTuple[]): ModuleOverrides =>
+  ({ ...overrides, added: [...overrides.added, modulePolygon] });
+
+const dot = (a: LocalPoint, b: LocalPoint) => a.x * b.x + a.y * b.y;
+
+// Grid pitch along `axis` from the nearest neighbouring module in that direction, or `fallback` when there is none.
+const getGridStep = (reference: LocalPoint, centres: LocalPoint[], axis: LocalPoint, across: LocalPoint, size: number, acrossSize: number, fallback: number) => {
+  let step = Infinity;
+  centres.forEach(c => {
+    const d = { x: c.x - reference.x, y: c.y - reference.y };
+    const along = Math.abs(dot(d, axis));
+    if (along > size / 4 && Math.abs(dot(d, across)) < acrossSize / 4) step = Math.min(step, along);
+  });
+  return step === Infinity ? fallback : step;
+};
+
+// A module snapped to the layout's grid at the clicked point, copied from the nearest module. Null when the layout is
+// empty or the grid cell is already taken.
+export const createGridModule = (layout: LatLngTuple[][], point: LatLngTuple): LatLngTuple[] | null => {
+  if (layout.length === 0) return null;
+
+  const { toLocal, toLatLng } = createLocalFrame(point);
+  const centres = layout.map(modulePolygon => toLocal(getModuleCentroid(modulePolygon)));
+  const nearestIndex = centres.reduce((best, c, i) => (Math.hypot(c.x, c.y) < Math.hypot(centres[best].x, centres[best].y) ? i : best), 0);
+  const reference = centres[nearestIndex];
+
+  // Module corners run along the row first, then along the tilt
+  const corners = layout[nearestIndex].map(toLocal);
+  const alongRow = { x: corners[1].x - corners[0].x, y: corners[1].y - corners[0].y };
+  const upTilt = { x: corners[3].x - corners[0].x, y: corners[3].y - corners[0].y };
+  const width = Math.hypot(alongRow.x, alongRow.y);
+  const height = Math.hypot(upTilt.x, upTilt.y);
+  if (width === 0 || height === 0) return null;
+  const u = { x: alongRow.x / width, y: alongRow.y / width };
+  const v = { x: upTilt.x / height, y: upTilt.y / height };
+
+  const stepU = getGridStep(reference, centres, u, v, width, height, width);
+  const stepV = getGridStep(reference, centres, v, u, height, width, height);
+  const toClick = { x: -reference.x, y: -reference.y };
+  const i = Math.round(dot(toClick, u) / stepU);
+  const j = Math.round(dot(toClick, v) / stepV);
+  const offset = { x: i * stepU * u.x + j * stepV * v.x, y: i * stepU * u.y + j * stepV * v.y };
+
+  const centre = { x: reference.x + offset.x, y: reference.y + offset.y };
+  if (centres.some(c => Math.hypot(c.x - centre.x, c.y - centre.y) < Math.min(width, height) / 2)) return null;
+
+  return corners.map(c => toLatLng({ x: c.x + offset.x, y: c.y + offset.y }));
+};
@@ -0,0 +1,84 @@
+import { LatLngTuple } from 'leaflet';
+import { FieldSegment, SegmentShading } from '../types/project';
+import { createLocalFrame } from './localProjection';
+import { getModuleCentroid } from './stringing';
+
+const DEG = Math.PI / 180;
+const ROW_TOLERANCE = 0.3; // meters between module centres that still count as one row
+const MATCH_TOLERANCE = 0.5; // meters between a module and an analysed module for the shading result to apply
+
+// Where each module's centre lies down the slope (along the azimuth it faces), in meters. Larger is further from the ridge.
+const getDownslopeDistances = (layout: LatLngTuple[][], azimuth: number) => {
+  const { toLocal } = createLocalFrame(layout[0][0]);
+  const facing = { x: Math.sin(azimuth * DEG), y: Math.cos(azimuth * DEG) };
+  return layout.map(modulePolygon => {
+    const centre = toLocal(getModuleCentroid(modulePolygon));
+    return centre.x * facing.x + centre.y * facing.y;
+  });
+};
+
+// TSRF from the last shading analysis for each module, matched by position. Modules that weren't analysed get -1 so
+// they are dropped first, which keeps the trimmed layout stable when the analysis is re-run on it.
+export const getModuleTsrf = (layout: LatLngTuple[][], shading?: SegmentShading, tolerance = MATCH_TOLERANCE): number[] | null => {
+  if (!shading?.moduleCentres || shading.moduleCentres.length !== shading.moduleTsrf.length) return null;
+
+  const { toLocal } = createLocalFrame(layout[0][0]);
+  const analysed = shading.moduleCentres.map(toLocal);
+  return layout.map(modulePolygon => {
+    const centre = toLocal(getModuleCentroid(modulePolygon));
+    let nearest = -1, nearestDistance = tolerance;
+    analysed.forEach((p, i) => {
+      const distance = Math.hypot(p.x - centre.x, p.y - centre.y);
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    return nearest === -1 ? -1 : shading.moduleTsrf[nearest];
+  });
+};
+
+// Keeps whole rows of modules, nearest the ridge first, while they fit under the cap.
+const keepCompleteRows = (order: number[], downslope: number[], maxModules: number) => {
+  const kept: number[] = [];
+  let row: number[] = [];
+  for (const index of [...order, -1]) {
+    if (index !== -1 && (row.length === 0 || downslope[index] - downslope[row[0]] <= ROW_TOLERANCE)) {
+      row.push(index);
+      continue;
+    }
+    if (kept.length + row.length > maxModules) break;
+    kept.push(...row);
+    row = index === -1 ? [] : [index];
+  }
+  return kept;
+};
+
+// Drops modules from `layout` until its nameplate is within `maxNameplate` kWp, following the segment's trim rule.
+// The "most shaded" rule falls back to the ridge rule until a shading analysis has been run.
+export const limitLayoutToNameplate = (
+  layout: LatLngTuple[][],
+  segment: FieldSegment,
+  modulePower: number,
+  maxNameplate: number
+): LatLngTuple[][] => {
+  const maxModules = Math.max(0, Math.floor((maxNameplate * 1000) / modulePower + 1e-9));
+  if (layout.length <= maxModules) return layout;
+  if (maxModules === 0) return [];
+
+  const downslope = getDownslopeDistances(layout, segment.azimuth);
+  const byRidgeDistance = layout.map((_, i) => i).sort((a, b) => downslope[a] - downslope[b]);
+  const rule = segment.nameplateTrimRule || 'ridge';
+
+  let kept: number[];
+  if (rule === 'rows') {
+    kept = keepCompleteRows(byRidgeDistance, downslope, maxModules);
+  } else {
+    const tsrf = rule === 'shading' ? getModuleTsrf(layout, segment.shading) : null;
+    const order = tsrf ? [...byRidgeDistance].sort((a, b) => tsrf[b] - tsrf[a]) : byRidgeDistance;
+    kept = order.slice(0, maxModules);
+  }
+
+  const keptSet = new Set(kept);
+  return layout.filter((_, i) => keptSet.has(i));
+};
@@ -0,0 +1,59 @@
+import { LatLngTuple } from 'leaflet';
+import { Obstruction } from '../types/project';
+import { LocalPoint, createLocalFrame } from './localProjection';
+
+const FEET_PER_METER = 3.28084;
+const CIRCLE_SEGMENTS = 24;
+
+// Footprint of an obstruction as a polygon; circles are approximated by a regular polygon.
+export const getObstructionPolygon = (obstruction: Obstruction): LatLngTuple[] => {
+  if (obstruction.shape !== 'circle') return obstruction.points;
+
+  const [center] = obstruction.points;
+  if (!center || !obstruction.radius) return [];
+  const radiusMeters = obstruction.radius / FEET_PER_METER;
+  const { toLatLng } = createLocalFrame(center);
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    return toLatLng({ x: radiusMeters * Math.sin(angle), y: radiusMeters * Math.cos(angle) });
+  });
+};
+
+// Outline of the keepout area: the footprint grown outward by the buffer, with mitred corners.
+export const getObstructionKeepout = (obstruction: Obstruction): LatLngTuple[] => {
+  const buffer = obstruction.buffer || 0;
+  if (obstruction.shape === 'circle') {
+    return getObstructionPolygon({ ...obstruction, radius: (obstruction.radius || 0) + buffer });
+  }
+
+  const polygon = obstruction.points;
+  if (polygon.length < 3 || buffer <= 0) return polygon;
+
+  const { toLocal, toLatLng } = createLocalFrame(polygon[0]);
+  const local = polygon.map(toLocal);
+  const bufferMeters = buffer / FEET_PER_METER;
+  const signedArea = local.reduce((sum, p, i) => {
+    const next = local[(i + 1) % local.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0);
+  const outward = signedArea > 0 ? 1 : -1; // Right-hand normals point out of a counter-clockwise ring
+
+  const offsetEdges = local.map((a, i) => {
+    const b = local[(i + 1) % local.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = ((b.y - a.y) / length) * outward * bufferMeters;
+    const ny = (-(b.x - a.x) / length) * outward * bufferMeters;
+    return { a: { x: a.x + nx, y: a.y + ny }, b: { x: b.x + nx, y: b.y + ny } };
+  });
+
+  return offsetEdges.map((edge, i) => {
+    const previous = offsetEdges[(i + offsetEdges.length - 1) % offsetEdges.length];
+    const d1 = { x: previous.b.x - previous.a.x, y: previous.b.y - previous.a.y };
+    const d2 = { x: edge.b.x - edge.a.x, y: edge.b.y - edge.a.y };
+    const denominator = d1.x * d2.y - d1.y * d2.x;
+    if (Math.abs(denominator) < 1e-9) return toLatLng(edge.a);
+    const t = ((edge.a.x - previous.a.x) * d2.y - (edge.a.y - previous.a.y) * d2.x) / denominator;
+    const corner: LocalPoint = { x: previous.a.x + t * d1.x, y: previous.a.y + t * d1.y };
+    return toLatLng(corner);
+  });
+};
@@ -0,0 +1,136 @@
+import { OndFile, InverterEfficiencyCurve } from '../types/project';
+
+// A mapping of common OND file keys (and their lowercase variants) to a standardized key format.
+const KEY_ALIASES: { [key: string]: string } = {
+  'model': 'Model',
+  'manufacturer': 'Manufacturer',
+  'datasource': 'DataSource',
+  'pnomconv': 'PNomConv', // AC nominal power in kW
+  'pmaxout': 'PMaxOUT',
+  'voutconv': 'VOutConv',
+  'vmppmin': 'VMppMin',
+  'vmppmax': 'VMPPMax',
+  'vabsmax': 'VAbsMax',
+  'vminmpp': 'VMppMin',
+  'vmaxmpp': 'VMPPMax',
+  'pseuil': 'PSeuil',
+  'efficmax': 'EfficMax',
+  'efficeuro': 'EfficEuro',
+  'pnomdc': 'PNomDC',
+  'pmaxdc': 'PMaxDC',
+  'imaxdc': 'IMaxDC',
+  'inomdc': 'INomDC',
+  'nbinputs': 'NbInputs',
+  'nbmppt': 'NbMPPT',
+  'monotri': 'MonoTri',
+  'vnomeff': 'VNomEff',
+};
+
+const PROFILE_START = /^(ProfilPIO\w*)=TCubicProfile$/i;
+const NUMBER_PATTERN = /^-?\d+(\.\d*)?([eE][-+]?\d+)?$/;
+
+// Efficiency profiles are nested blocks, so their keys are stored prefixed with the profile name
+// (e.g. `ProfilPIOV1.Point_2`) to keep the parsed file flat like a PanFile.
+export const parseOndFile = (content: string): OndFile => {
+  const data: OndFile = {};
+  const lines = content.split('\n');
+
+  const currentRemarks: string[] = [];
+  let inRemarks = false;
+  let currentProfile: string | null = null;
+
+  lines.forEach(line => {
+    line = line.trim();
+    if (!line || line.startsWith('//') || line.startsWith('PVObject_') || line.startsWith('End of PVObject')) {
+      return;
+    }
+
+    if (line.startsWith('Remarks, Count=')) {
+      inRemarks = true;
+      return;
+    }
+
+    if (line.startsWith('End of Remarks')) {
+      inRemarks = false;
+      data['Remarks'] = currentRemarks.join('\n');
+      return;
+    }
+
+    if (inRemarks) {
+      const remarkMatch = line.match(/^Str_\d+=(.*)/);
+      if (remarkMatch && remarkMatch[1]) {
+        currentRemarks.push(remarkMatch[1]);
+      }
+      return;
+    }
+
+    const profileMatch = line.match(PROFILE_START);
+    if (profileMatch) {
+      currentProfile = profileMatch[1];
+      return;
+    }
+
+    if (line.startsWith('End of TCubicProfile')) {
+      currentProfile = null;
+      return;
+    }
+
+    const parts = line.split('=');
+    if (parts.length >= 2) {
+      const rawKey = parts[0].trim();
+      const standardKey = KEY_ALIASES[rawKey.toLowerCase()] || rawKey;
+      const key = currentProfile ? `${currentProfile}.${rawKey}` : standardKey;
+      const value = parts.slice(1).join('=').trim();
+
+      data[key] = NUMBER_PATTERN.test(value) ? parseFloat(value) : value;
+    }
+  });
+
+  return data;
+};
+
+const parseNumberList = (value: string | number | undefined): number[] => {
+  if (value === undefined) return [];
+  return String(value).split(',').map(v => parseFloat(v)).filter(v => !isNaN(v));
+};
+
+// Builds the efficiency curves from the parsed profiles. PVsyst stores one profile per voltage in
+// `VNomEff` (ProfilPIOV1..3), or a single `ProfilPIO` for older files.
+export const getEfficiencyCurves = (ondFile: OndFile): InverterEfficiencyCurve[] => {
+  const voltages = parseNumberList(ondFile.VNomEff);
+  const pNomAc = Number(ondFile.PNomConv) || 0;
+
+  const profiles = new Set<string>();
+  Object.keys(ondFile).forEach(key => {
+    const [profile, field] = key.split('.');
+    if (field && field.startsWith('Point_')) profiles.add(profile);
+  });
+
+  const voltageProfiles = Array.from(profiles).filter(profile => /V\d$/.test(profile));
+  const selectedProfiles = voltageProfiles.length > 0 ? voltageProfiles : Array.from(profiles);
+
+  return selectedProfiles.sort().map(profile => {
+    const rawPoints: [number, number][] = [];
+    Object.keys(ondFile)
+      .filter(key => key.startsWith(`${profile}.Point_`))
+      .sort((a, b) => parseInt(a.split('_').pop()!) - parseInt(b.split('_').pop()!))
+      .forEach(key => {
+        const [input, output] = parseNumberList(ondFile[key]);
+        if (input > 0 && output !== undefined) rawPoints.push([input, output]);
+      });
+
+    // Profile points are usually in W, but some exporters write kW. Compare against the nominal AC power to tell.
+    const maxInput = Math.max(0, ...rawPoints.map(p => p[0]));
+    const scale = pNomAc > 0 && maxInput > pNomAc * 10 ? 1 / 1000 : 1;
+
+    const voltageMatch = profile.match(/V(\d)$/);
+    return {
+      voltage: voltageMatch ? voltages[parseInt(voltageMatch[1]) - 1] : undefined,
+      points: rawPoints.map(([input, output]) => ({
+        inputPower: input * scale,
+        outputPower: output * scale,
+        efficiency: (output / input) * 100,
+      })),
+    };
+  }).filter(curve => curve.points.length > 0);
+};
@@ -0,0 +1,175 @@
+import { LocalPoint } from './localProjection';
+
+// Inward polygon offsetting (erosion by a disc). Every edge is shifted inward, reflex corners are joined with arcs,
+// and the resulting raw curve is cut at its self-intersections. Wherever the region is too narrow the raw curve
+// folds back on itself, so only pieces bordering a positive winding number on their left survive; chaining them
+// back together gives the eroded region, which may be several rings or none at all.
+
+const ARC_STEP = Math.PI / 18; // 10° per arc segment at reflex corners
+const POINT_TOLERANCE = 1e-6; // meters
+const SIDE_PROBE = 1e-7; // meters either side of a piece where the winding number is sampled
+
+interface Piece {
+  start: LocalPoint;
+  end: LocalPoint;
+}
+
+const signedArea = (ring: LocalPoint[]) =>
+  ring.reduce((sum, p, i) => {
+    const next = ring[(i + 1) % ring.length];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0) / 2;
+
+// Even-odd containment, so rings after the first act as holes.
+export const isPointInRings = (point: LocalPoint, rings: LocalPoint[][]): boolean => {
+  let isInside = false;
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i], b = ring[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+        isInside = !isInside;
+      }
+    }
+  });
+  return isInside;
+};
+
+// How many times the closed curves wind counter-clockwise around the point.
+const windingNumber = (point: LocalPoint, curves: LocalPoint[][]) => {
+  let winding = 0;
+  curves.forEach(curve => {
+    for (let i = 0; i < curve.length; i++) {
+      const a = curve[i], b = curve[(i + 1) % curve.length];
+      const side = (b.x - a.x) * (point.y - a.y) - (point.x - a.x) * (b.y - a.y);
+      if (a.y <= point.y && b.y > point.y && side > 0) winding++;
+      else if (a.y > point.y && b.y <= point.y && side < 0) winding--;
+    }
+  });
+  return winding;
+};
+
+// Parameter along a→b where it crosses c→d, or null if the segments don't cross.
+const intersectionParameter = (a: LocalPoint, b: LocalPoint, c: LocalPoint, d: LocalPoint): number | null => {
+  const r = { x: b.x - a.x, y: b.y - a.y };
+  const s = { x: d.x - c.x, y: d.y - c.y };
+  const denominator = r.x * s.y - r.y * s.x;
+  if (Math.abs(denominator) < 1e-12) return null;
+  const t = ((c.x - a.x) * s.y - (c.y - a.y) * s.x) / denominator;
+  const u = ((c.x - a.x) * r.y - (c.y - a.y) * r.x) / denominator;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+// Closed curve made of every edge shifted `distance` to its left, with arcs around corners that turn right.
+// Rings must be oriented so the region is on their left (outer counter-clockwise, holes clockwise).
+const buildRawCurve = (ring: LocalPoint[], distance: number): LocalPoint[] => {
+  const curve: LocalPoint[] = [];
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    const a = ring[i], b = ring[(i + 1) % n], c = ring[(i + 2) % n];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+    curve.push({ x: a.x + normal.x * distance, y: a.y + normal.y * distance });
+    curve.push({ x: b.x + normal.x * distance, y: b.y + normal.y * distance });
+
+    const nextLength = Math.hypot(c.x - b.x, c.y - b.y);
+    const turn = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (nextLength === 0 || turn >= 0) continue;
+
+    // Reflex corner: sweep clockwise around it from this edge's normal to the next one's. The arc is drawn as a
+    // circumscribed polyline so no point of it comes closer than `distance` to the corner.
+    const nextNormal = { x: -(c.y - b.y) / nextLength, y: (c.x - b.x) / nextLength };
+    const startAngle = Math.atan2(normal.y, normal.x);
+    let sweep = Math.atan2(nextNormal.y, nextNormal.x) - startAngle;
+    while (sweep > 0) sweep -= 2 * Math.PI;
+    const steps = Math.max(1, Math.ceil(-sweep / ARC_STEP));
+    const step = sweep / steps;
+    const radius = distance / Math.cos(step / 2);
+    for (let k = 1; k <= steps; k++) {
+      const angle = startAngle + (k - 0.5) * step;
+      curve.push({ x: b.x + Math.cos(angle) * radius, y: b.y + Math.sin(angle) * radius });
+    }
+  }
+  return curve;
+};
+
+// Splits the closed curves at all their mutual crossings.
+const splitAtIntersections = (curves: LocalPoint[][]): Piece[] => {
+  const segments = curves.flatMap(curve => curve.map((p, i) => ({ a: p, b: curve[(i + 1) % curve.length] })));
+  return segments.flatMap((segment, i) => {
+    const cuts = [0, 1];
+    segments.forEach((other, j) => {
+      if (i === j) return;
+      const t = intersectionParameter(segment.a, segment.b, other.a, other.b);
+      if (t !== null) cuts.push(t);
+    });
+    cuts.sort((x, y) => x - y);
+    const at = (t: number) => ({ x: segment.a.x + t * (segment.b.x - segment.a.x), y: segment.a.y + t * (segment.b.y - segment.a.y) });
+    const pieces: Piece[] = [];
+    for (let k = 0; k < cuts.length - 1; k++) {
+      if (cuts[k + 1] - cuts[k] > 1e-12) pieces.push({ start: at(cuts[k]), end: at(cuts[k + 1]) });
+    }
+    return pieces;
+  });
+};
+
+// Joins pieces end-to-start into closed rings.
+const chainPieces = (pieces: Piece[]): LocalPoint[][] => {
+  const used = new Array(pieces.length).fill(false);
+  const rings: LocalPoint[][] = [];
+  const isSamePoint = (p: LocalPoint, q: LocalPoint) => Math.hypot(p.x - q.x, p.y - q.y) < POINT_TOLERANCE;
+
+  for (let first = 0; first < pieces.length; first++) {
+    if (used[first]) continue;
+    used[first] = true;
+    const ring = [pieces[first].start];
+    let end = pieces[first].end;
+    while (!isSamePoint(end, ring[0])) {
+      const next = pieces.findIndex((piece, i) => !used[i] && isSamePoint(piece.start, end));
+      if (next === -1) break;
+      used[next] = true;
+      ring.push(pieces[next].start);
+      end = pieces[next].end;
+    }
+    if (isSamePoint(end, ring[0]) && ring.length > 2 && Math.abs(signedArea(ring)) > POINT_TOLERANCE) rings.push(ring);
+  }
+  return rings;
+};
+
+// Drops repeated points and vertices on straight runs left over from splitting.
+const simplifyRing = (ring: LocalPoint[]): LocalPoint[] =>
+  ring.filter((p, i) => {
+    const previous = ring[(i + ring.length - 1) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const cross = (p.x - previous.x) * (next.y - p.y) - (p.y - previous.y) * (next.x - p.x);
+    return Math.abs(cross) > 1e-9;
+  });
+
+// Region inside `rings` (first ring the outline, the rest holes) that is at least `distance` meters from the
+// outline and `holeDistance` meters from every hole. Returns rings with the same even-odd meaning; empty when
+// nothing is left.
+export const offsetPolygonInward = (rings: LocalPoint[][], distance: number, holeDistance = distance): LocalPoint[][] => {
+  if (!rings[0] || rings[0].length < 3) return [];
+  const validRings = rings.filter(ring => ring.length > 2);
+  if (distance <= 0 && holeDistance <= 0) return validRings;
+
+  // Orient so the region is always on the left of each ring
+  const oriented = validRings.map((ring, i) => {
+    const isCounterClockwise = signedArea(ring) > 0;
+    return (i === 0) === isCounterClockwise ? ring : [...ring].reverse();
+  });
+
+  const curves = oriented.map((ring, i) => {
+    const ringDistance = i === 0 ? distance : holeDistance;
+    return ringDistance > 0 ? buildRawCurve(ring, ringDistance) : ring;
+  });
+  const pieces = splitAtIntersections(curves).filter(piece => {
+    const length = Math.hypot(piece.end.x - piece.start.x, piece.end.y - piece.start.y);
+    const mid = { x: (piece.start.x + piece.end.x) / 2, y: (piece.start.y + piece.end.y) / 2 };
+    const left = { x: -(piece.end.y - piece.start.y) / length * SIDE_PROBE, y: (piece.end.x - piece.start.x) / length * SIDE_PROBE };
+    return windingNumber({ x: mid.x + left.x, y: mid.y + left.y }, curves) > 0
+      && windingNumber({ x: mid.x - left.x, y: mid.y - left.y }, curves) <= 0;
+  });
+
+  return chainPieces(pieces).map(simplifyRing).filter(ring => ring.length > 2);
+};
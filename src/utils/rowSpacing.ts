@@ -0,0 +1,88 @@
+import { FieldSegment, Module } from '../types/project';
+import { calculateSolarPosition } from './solarPosition';
+
+const DEG = Math.PI / 180;
+const FEET_PER_METER = 3.28084;
+const SIMULATION_YEAR = 2023;
+const SAMPLE_MINUTES = 15;
+
+export const DEFAULT_SHADE_FREE_START = 9; // Solar time
+export const DEFAULT_SHADE_FREE_END = 15;
+
+export interface RowPitch {
+  pitch: number; // in feet, row-to-row distance along the tilt direction
+  rowSpacing: number; // in feet, gap the layout leaves between drawn rows
+  gcr: number;
+  isAchievable: boolean; // False when the sun is below the horizon during the shade-free window
+}
+
+// Length of one row of racking tables measured up the tilt (what casts the row's shadow), in meters.
+export const getCollectorLength = (segment: FieldSegment, module: Module) => {
+  const moduleLength = (segment.orientation === 'Landscape' ? module.width : module.height) || 0;
+  const modulesUp = Math.max(1, Math.floor(segment.frameSizeUp || 1));
+  return modulesUp * moduleLength + (modulesUp - 1) * (segment.moduleSpacing ?? 0.1) / FEET_PER_METER;
+};
+
+// Minimum pitch (meters) so a row of `collectorLength` at `tilt` doesn't shade the row behind it on the winter
+// solstice between `startHour` and `endHour` solar time. Null if the sun is below the horizon in that window.
+export const calculateMinimumRowPitch = (
+  collectorLength: number,
+  tilt: number,
+  arrayAzimuth: number,
+  coordinates: { lat: number; lng: number },
+  startHour: number,
+  endHour: number
+): number | null => {
+  const rise = collectorLength * Math.sin(tilt * DEG);
+  const run = collectorLength * Math.cos(tilt * DEG);
+  const solsticeMonth = coordinates.lat >= 0 ? 11 : 5;
+  const solsticeMidnightUtc = Date.UTC(SIMULATION_YEAR, solsticeMonth, 21);
+
+  let longestShadow = 0;
+  for (let minutes = startHour * 60; minutes <= endHour * 60; minutes += SAMPLE_MINUTES) {
+    const date = new Date(solsticeMidnightUtc + (minutes - (coordinates.lng / 15) * 60) * 60000);
+    const sun = calculateSolarPosition(coordinates, date);
+    if (sun.elevation <= 0) return null;
+    // Only the part of the shadow that falls towards the next row counts
+    const towardsNextRow = Math.cos((sun.azimuth - arrayAzimuth) * DEG);
+    longestShadow = Math.max(longestShadow, (rise / Math.tan(sun.elevation * DEG)) * towardsNextRow);
+  }
+  return run + longestShadow;
+};
+
+// Row pitch used by the layout. Manual segments keep `rowSpacing` as the gap between rows; shade-free Fixed Tilt
+// segments derive the pitch from the solstice sun at the segment's location.
+export const calculateRowPitch = (segment: FieldSegment, module: Module): RowPitch => {
+  const collectorFeet = getCollectorLength(segment, module) * FEET_PER_METER;
+  const manualSpacing = segment.rowSpacing ?? 2;
+  const manual = (isAchievable: boolean): RowPitch => ({
+    pitch: collectorFeet + manualSpacing,
+    rowSpacing: manualSpacing,
+    gcr: collectorFeet + manualSpacing > 0 ? collectorFeet / (collectorFeet + manualSpacing) : 0,
+    isAchievable,
+  });
+
+  if (segment.rowSpacingMode !== 'solstice' || segment.rackingType !== 'Fixed Tilt' || segment.points.length === 0 || collectorFeet <= 0) {
+    return manual(true);
+  }
+
+  const [lat, lng] = segment.points[0];
+  const pitchMeters = calculateMinimumRowPitch(
+    getCollectorLength(segment, module),
+    segment.moduleTilt || 0,
+    segment.azimuth,
+    { lat, lng },
+    segment.shadeFreeStart ?? DEFAULT_SHADE_FREE_START,
+    segment.shadeFreeEnd ?? DEFAULT_SHADE_FREE_END
+  );
+  if (pitchMeters === null) return manual(false);
+
+  const pitch = pitchMeters * FEET_PER_METER;
+  return {
+    pitch,
+    // Rows are drawn at full module length, so the gap is measured from that
+    rowSpacing: Math.max(0, pitch - collectorFeet),
+    gcr: collectorFeet / Math.max(pitch, collectorFeet),
+    isAchievable: true,
+  };
+};
@@ -0,0 +1,169 @@
+import { LatLngTuple } from 'leaflet';
+import { Design, FieldSegment, Obstruction, SegmentShading, WeatherData } from '../types/project';
+import { HourlyConditions, buildHourlyConditions } from './energySimulation';
+import { calculatePlaneOfArrayIrradiance } from './transposition';
+import { getSegmentHeight } from './shadows';
+import { LocalPoint, createLocalFrame } from './localProjection';
+import { getModuleCentroid } from './stringing';
+import { getObstructionPolygon } from './obstructions';
+
+// Annual shade analysis: every field segment and obstruction is a vertical prism, and each module's centre is
+// ray-cast towards the sun for every daylight hour. A blocked ray loses the beam component; diffuse is kept.
+
+const DEG = Math.PI / 180;
+const METERS_PER_FOOT = 0.3048;
+
+interface Prism {
+  ownerId: string;
+  footprint: LocalPoint[];
+  top: number; // meters
+}
+
+interface SunRay {
+  dx: number;
+  dy: number;
+  tanElevation: number;
+}
+
+export interface ShadingAnalysisOptions {
+  weather?: WeatherData; // Clear-sky when omitted
+}
+
+export interface SegmentShadingResult {
+  segmentId: string;
+  shading: SegmentShading;
+}
+
+export interface ShadingAnalysisResult {
+  weatherSource: string;
+  solarAccess: number; // Module-weighted average, 0..1
+  tsrf: number; // Module-weighted average, 0..1
+  segments: SegmentShadingResult[];
+}
+
+// Distance along the horizontal ray to the nearest crossing of the prism's walls, or Infinity if it misses.
+const distanceToPrism = (origin: LocalPoint, ray: SunRay, footprint: LocalPoint[]) => {
+  let nearest = Infinity;
+  for (let i = 0; i < footprint.length; i++) {
+    const a = footprint[i];
+    const b = footprint[(i + 1) % footprint.length];
+    const ex = b.x - a.x, ey = b.y - a.y;
+    const denominator = ray.dx * ey - ray.dy * ex;
+    if (Math.abs(denominator) < 1e-12) continue;
+    const ox = a.x - origin.x, oy = a.y - origin.y;
+    const t = (ox * ey - oy * ex) / denominator;
+    const u = (ox * ray.dy - oy * ray.dx) / denominator;
+    if (t > 0 && u >= 0 && u <= 1 && t < nearest) nearest = t;
+  }
+  return nearest;
+};
+
+const isShaded = (origin: LocalPoint, height: number, ray: SunRay, prisms: Prism[]) =>
+  prisms.some(prism => {
+    const distance = distanceToPrism(origin, ray, prism.footprint);
+    return distance !== Infinity && height + distance * ray.tanElevation < prism.top;
+  });
+
+const sumPoa = (tilt: number, azimuth: number, conditions: HourlyConditions[]) =>
+  conditions.reduce((sum, { sun, dniExtra, irradiance }) =>
+    sum + calculatePlaneOfArrayIrradiance({ moduleTilt: tilt, azimuth }, sun, irradiance, dniExtra).total, 0);
+
+// Annual irradiance on the best equator-facing plane, the reference for TOF.
+const calculateOptimalInsolation = (latitude: number, conditions: HourlyConditions[]) => {
+  const azimuth = latitude >= 0 ? 180 : 0;
+  let best = 0;
+  for (let tilt = 0; tilt <= 90; tilt++) {
+    best = Math.max(best, sumPoa(tilt, azimuth, conditions));
+  }
+  return best;
+};
+
+const analyzeSegment = (
+  segment: FieldSegment,
+  prisms: Prism[],
+  toLocal: (p: LatLngTuple) => LocalPoint,
+  conditions: HourlyConditions[],
+  rays: SunRay[],
+  optimalInsolation: number
+): SegmentShading => {
+  const moduleHeight = getSegmentHeight(segment);
+  // Only taller prisms can shade this segment, and a segment never shades itself.
+  const blockers = prisms.filter(p => p.ownerId !== segment.id && p.top > moduleHeight);
+
+  let unshadedTotal = 0;
+  const beam: number[] = [];
+  conditions.forEach(({ sun, dniExtra, irradiance }) => {
+    const poa = calculatePlaneOfArrayIrradiance(segment, sun, irradiance, dniExtra);
+    beam.push(poa.beam);
+    unshadedTotal += poa.total;
+  });
+
+  const moduleCentres = (segment.moduleLayout || []).map(getModuleCentroid);
+  const moduleSolarAccess = moduleCentres.map(moduleCentre => {
+    if (blockers.length === 0 || unshadedTotal <= 0) return 1;
+    const centre = toLocal(moduleCentre);
+    let lost = 0;
+    rays.forEach((ray, hour) => {
+      if (beam[hour] > 0 && isShaded(centre, moduleHeight, ray, blockers)) lost += beam[hour];
+    });
+    return 1 - lost / unshadedTotal;
+  });
+
+  const tof = optimalInsolation > 0 ? unshadedTotal / optimalInsolation : 0;
+  const moduleTsrf = moduleSolarAccess.map(access => access * tof);
+  const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  return {
+    solarAccess: average(moduleSolarAccess),
+    tof,
+    tsrf: average(moduleTsrf),
+    moduleSolarAccess,
+    moduleTsrf,
+    moduleCentres,
+  };
+};
+
+export const runShadingAnalysis = (
+  design: Design,
+  coordinates: { lat: number; lng: number },
+  options: ShadingAnalysisOptions = {}
+): ShadingAnalysisResult => {
+  const segments = (design.field_segments || []).filter(s => s.points.length > 2);
+  const obstructions: Obstruction[] = design.obstructions || [];
+  const origin = segments[0]?.points[0] || obstructions[0]?.points[0];
+  const conditions = buildHourlyConditions(coordinates, options).filter(c => c.sun.elevation > 0 && c.irradiance.ghi > 0);
+
+  if (!origin || conditions.length === 0) {
+    return { weatherSource: '', solarAccess: 0, tsrf: 0, segments: [] };
+  }
+
+  const { toLocal } = createLocalFrame(origin);
+  const prisms: Prism[] = [
+    ...segments.map(s => ({ ownerId: s.id, footprint: s.points.map(toLocal), top: getSegmentHeight(s) })),
+    ...obstructions
+      .map(o => ({ ownerId: o.id, footprint: getObstructionPolygon(o).map(toLocal), top: (o.baseHeight + o.height) * METERS_PER_FOOT }))
+      .filter(p => p.footprint.length > 2),
+  ];
+  const rays: SunRay[] = conditions.map(({ sun }) => ({
+    dx: Math.sin(sun.azimuth * DEG),
+    dy: Math.cos(sun.azimuth * DEG),
+    tanElevation: Math.tan(sun.elevation * DEG),
+  }));
+  const optimalInsolation = calculateOptimalInsolation(coordinates.lat, conditions);
+
+  const results = segments
+    .filter(s => s.moduleLayout && s.moduleLayout.length > 0)
+    .map(s => ({ segmentId: s.id, shading: analyzeSegment(s, prisms, toLocal, conditions, rays, optimalInsolation) }));
+
+  const moduleCount = results.reduce((sum, r) => sum + r.shading.moduleTsrf.length, 0);
+  const weightedAverage = (key: 'solarAccess' | 'tsrf') => moduleCount > 0
+    ? results.reduce((sum, r) => sum + r.shading[key] * r.shading.moduleTsrf.length, 0) / moduleCount
+    : 0;
+
+  return {
+    weatherSource: options.weather ? options.weather.source : 'Clear sky (Ineichen)',
+    solarAccess: weightedAverage('solarAccess'),
+    tsrf: weightedAverage('tsrf'),
+    segments: results,
+  };
+};
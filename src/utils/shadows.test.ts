@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LatLngTuple } from 'leaflet';
+import { FieldSegment } from '../types/project';
+import { createLocalFrame, LocalPoint } from './localProjection';
+import { calculateSegmentShadows } from './shadows';
+
+const METERS_PER_FOOT = 0.3048;
+const origin: LatLngTuple = [40, -105];
+const { toLatLng, toLocal } = createLocalFrame(origin);
+
+const area = (ring: LocalPoint[]) =>
+  Math.abs(ring.reduce((sum, p, i) => sum + p.x * ring[(i + 1) % ring.length].y - ring[(i + 1) % ring.length].x * p.y, 0)) / 2;
+
+const makeSegment = (id: string, points: LocalPoint[], height: number): FieldSegment => ({
+  id,
+  points: points.map(toLatLng),
+  area: 0,
+  nameplate: 0,
+  moduleCount: 0,
+  azimuth: 180,
+  surfaceHeight: height / METERS_PER_FOOT,
+});
+
+// 20 m L-shaped building with the notch in its north-east corner
+const lShape = [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 20 }, { x: 0, y: 20 }];
+const southSun = { zenith: 45, elevation: 45, azimuth: 180, declination: 0 };
+
+describe('calculateSegmentShadows', () => {
+  it('follows the notch of an L-shaped building', () => {
+    // 5 m high with the sun 45° up in the south: every north-south cut grows by 5 m, 300 + 20 * 5 m²
+    const [shadow] = calculateSegmentShadows([makeSegment('building', lShape, 5)], southSun);
+
+    expect(area(shadow.points.map(toLocal))).toBeCloseTo(400, 1);
+    expect(shadow.holes).toBeUndefined();
+  });
+
+  it('keeps the yard of a U-shaped building out of its shadow', () => {
+    // Open to the east with the sun in the west, so the yard only gets the 5 m the base throws into it
+    const uShape = [
+      { x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 10 }, { x: 10, y: 10 },
+      { x: 10, y: 20 }, { x: 30, y: 20 }, { x: 30, y: 30 }, { x: 0, y: 30 },
+    ];
+    const [shadow] = calculateSegmentShadows([makeSegment('building', uShape, 5)], { ...southSun, azimuth: 270 });
+
+    // Every east-west cut grows by 5 m: 900 - 200 + 30 * 5 m²
+    expect(area(shadow.points.map(toLocal))).toBeCloseTo(850, 1);
+  });
+
+  it('clips the shadow to the roof of a lower neighbour', () => {
+    const tower = makeSegment('tower', lShape, 10);
+    const annex = makeSegment('annex', [{ x: 0, y: 20 }, { x: 20, y: 20 }, { x: 20, y: 40 }, { x: 0, y: 40 }], 5);
+    const onRoof = calculateSegmentShadows([tower, annex], southSun).filter(shadow => shadow.receiverId === 'annex');
+
+    // 5 m drop: a 10 x 5 m strip north of the tower's west arm; the shadow beyond the notch stops short of the annex
+    expect(onRoof).toHaveLength(1);
+    expect(area(onRoof[0].points.map(toLocal))).toBeCloseTo(50, 1);
+  });
+});
@@ -0,0 +1,194 @@
+import { LatLngTuple } from 'leaflet';
+import { FieldSegment } from '../types/project';
+import { SolarPosition } from './solarPosition';
+import { LocalPoint, createLocalFrame } from './localProjection';
+
+const METERS_PER_FOOT = 0.3048;
+const DEG = Math.PI / 180;
+// Below this the shadow length grows without bound; clamp so sunrise/sunset shadows stay drawable.
+const MIN_SHADOW_ELEVATION = 1; // degrees
+const MIN_SHADOW_AREA = 0.01; // m²
+const EPSILON = 1e-6; // m
+
+export interface SegmentShadow {
+  casterId: string;
+  receiverId?: string; // Undefined for shadows on the ground
+  points: LatLngTuple[];
+  holes?: LatLngTuple[][]; // Inner rings the shadow surrounds but does not cover
+  altitude: number; // Height of the receiving surface in meters
+}
+
+// Height of the top of a segment's extruded block (building plus racking) in meters.
+export const getSegmentHeight = (segment: FieldSegment) =>
+  ((segment.surfaceHeight || 0) + (segment.rackingHeight || 0)) * METERS_PER_FOOT;
+
+const cross = (o: LocalPoint, a: LocalPoint, b: LocalPoint) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const signedArea = (ring: LocalPoint[]) =>
+  ring.reduce((sum, p, i) => sum + cross({ x: 0, y: 0 }, p, ring[(i + 1) % ring.length]), 0) / 2;
+
+// Even-odd ray casting
+const isInsideRing = (p: LocalPoint, ring: LocalPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < a.x + ((p.y - a.y) / (b.y - a.y)) * (b.x - a.x)) inside = !inside;
+  }
+  return inside;
+};
+
+// Vertices closer than this (0.01 mm) are treated as one when joining boundary pieces.
+const keyOf = (p: LocalPoint) => `${Math.round(p.x * 1e5)},${Math.round(p.y * 1e5)}`;
+
+// Boundary of the region where `isInside` holds, traced along the edges of `rings`: every edge is split where it meets
+// another, and the pieces with the region on exactly one side are joined into rings. Outer rings come out
+// counter-clockwise and holes clockwise.
+const traceBoundary = (rings: LocalPoint[][], isInside: (p: LocalPoint) => boolean): LocalPoint[][] => {
+  const edges = rings.flatMap(ring => ring.map((a, i) => [a, ring[(i + 1) % ring.length]]));
+  const pieces = new Map<string, [LocalPoint, LocalPoint]>();
+
+  edges.forEach(([a, b]) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    if (length < EPSILON) return;
+
+    const cuts = [0, 1];
+    edges.forEach(([c, d]) => {
+      const ex = d.x - c.x;
+      const ey = d.y - c.y;
+      const denominator = dx * ey - dy * ex;
+      if (Math.abs(denominator) > EPSILON * length * Math.hypot(ex, ey)) {
+        const t = ((c.x - a.x) * ey - (c.y - a.y) * ex) / denominator;
+        const u = ((c.x - a.x) * dy - (c.y - a.y) * dx) / denominator;
+        if (t > 0 && t < 1 && u >= 0 && u <= 1) cuts.push(t);
+        return;
+      }
+      // Parallel edges only meet where one overlaps the other; cut at the other edge's ends
+      [c, d].forEach(p => {
+        if (Math.abs(cross(a, b, p)) > EPSILON * length) return;
+        const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / (length * length);
+        if (t > 0 && t < 1) cuts.push(t);
+      });
+    });
+
+    cuts.sort((t0, t1) => t0 - t1);
+    const normal = { x: -dy / length, y: dx / length };
+    for (let i = 1; i < cuts.length; i++) {
+      const start = { x: a.x + cuts[i - 1] * dx, y: a.y + cuts[i - 1] * dy };
+      const end = { x: a.x + cuts[i] * dx, y: a.y + cuts[i] * dy };
+      if (keyOf(start) === keyOf(end)) continue;
+
+      const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      const insideLeft = isInside({ x: mid.x + normal.x * EPSILON, y: mid.y + normal.y * EPSILON });
+      const insideRight = isInside({ x: mid.x - normal.x * EPSILON, y: mid.y - normal.y * EPSILON });
+      if (insideLeft === insideRight) continue;
+
+      // Keep the region on the left; edges shared by two rings give the same piece twice
+      const piece: [LocalPoint, LocalPoint] = insideLeft ? [start, end] : [end, start];
+      pieces.set(`${keyOf(piece[0])}>${keyOf(piece[1])}`, piece);
+    }
+  });
+
+  const outgoing = new Map<string, [LocalPoint, LocalPoint][]>();
+  pieces.forEach(piece => {
+    const key = keyOf(piece[0]);
+    outgoing.set(key, [...(outgoing.get(key) || []), piece]);
+  });
+
+  const boundary: LocalPoint[][] = [];
+  pieces.forEach(first => {
+    const firstKey = keyOf(first[0]);
+    if (!outgoing.get(firstKey)?.includes(first)) return; // Already part of a ring
+
+    const ring: LocalPoint[] = [];
+    let piece: [LocalPoint, LocalPoint] | undefined = first;
+    while (piece) {
+      const startKey = keyOf(piece[0]);
+      outgoing.set(startKey, outgoing.get(startKey)!.filter(other => other !== piece));
+      ring.push(piece[0]);
+      const endKey = keyOf(piece[1]);
+      piece = endKey === firstKey ? undefined : outgoing.get(endKey)?.[0];
+      if (!piece && endKey !== firstKey) return; // Open chain from rounding; drop it
+    }
+
+    // Drop vertices in the middle of straight runs
+    const simplified = ring.filter((p, i) =>
+      Math.abs(cross(ring[(i + ring.length - 1) % ring.length], p, ring[(i + 1) % ring.length])) > EPSILON);
+    if (simplified.length >= 3) boundary.push(simplified);
+  });
+  return boundary;
+};
+
+// Groups traced rings into outer rings and the holes inside each.
+const toRegions = (rings: LocalPoint[][]) => {
+  const outers = rings.filter(ring => signedArea(ring) > 0);
+  return outers.map(outer => ({
+    outer,
+    holes: rings.filter(ring => signedArea(ring) < 0 && isInsideRing(ring[0], outer) &&
+      // A hole belongs to the smallest outer ring around it
+      !outers.some(other => other !== outer && signedArea(other) < signedArea(outer) && isInsideRing(ring[0], other))),
+  }));
+};
+
+// The shadow of a vertical prism on a horizontal plane `drop` meters below its top is the union of its footprint, the
+// footprint shifted away from the sun, and the quads each footprint edge sweeps between the two. Returns those parts;
+// their union is exact for concave (L- or U-shaped) footprints too.
+const castShadow = (footprint: LocalPoint[], drop: number, sun: SolarPosition): LocalPoint[][] => {
+  const length = drop / Math.tan(Math.max(sun.elevation, MIN_SHADOW_ELEVATION) * DEG);
+  const dx = -Math.sin(sun.azimuth * DEG) * length;
+  const dy = -Math.cos(sun.azimuth * DEG) * length;
+  const shifted = footprint.map(p => ({ x: p.x + dx, y: p.y + dy }));
+  const swept = footprint.map((p, i) => {
+    const next = (i + 1) % footprint.length;
+    return [p, footprint[next], shifted[next], shifted[i]];
+  });
+  return [footprint, shifted, ...swept];
+};
+
+// Shadows cast by extruded segments onto the ground and onto the roofs of lower neighbouring segments.
+export const calculateSegmentShadows = (segments: FieldSegment[], sun: SolarPosition): SegmentShadow[] => {
+  if (sun.elevation <= 0 || segments.length === 0 || segments[0].points.length === 0) return [];
+
+  const { toLocal, toLatLng } = createLocalFrame(segments[0].points[0]);
+  const shadows: SegmentShadow[] = [];
+
+  segments.forEach(caster => {
+    const casterHeight = getSegmentHeight(caster);
+    if (casterHeight <= 0 || caster.points.length < 3) return;
+    const footprint = caster.points.map(toLocal);
+
+    const groundParts = castShadow(footprint, casterHeight, sun);
+    const onGround = traceBoundary(groundParts, p => groundParts.some(part => isInsideRing(p, part)));
+    toRegions(onGround).forEach(({ outer, holes }) => {
+      shadows.push({
+        casterId: caster.id,
+        points: outer.map(toLatLng),
+        holes: holes.length > 0 ? holes.map(hole => hole.map(toLatLng)) : undefined,
+        altitude: 0,
+      });
+    });
+
+    segments.forEach(receiver => {
+      const receiverHeight = (receiver.surfaceHeight || 0) * METERS_PER_FOOT;
+      if (receiver.id === caster.id || receiverHeight <= 0 || receiverHeight >= casterHeight || receiver.points.length < 3) return;
+
+      const roof = receiver.points.map(toLocal);
+      const parts = castShadow(footprint, casterHeight - receiverHeight, sun);
+      const onRoof = traceBoundary([roof, ...parts], p => isInsideRing(p, roof) && parts.some(part => isInsideRing(p, part)));
+      toRegions(onRoof).forEach(({ outer, holes }) => {
+        if (signedArea(outer) + holes.reduce((sum, hole) => sum + signedArea(hole), 0) < MIN_SHADOW_AREA) return;
+        shadows.push({
+          casterId: caster.id,
+          receiverId: receiver.id,
+          points: outer.map(toLatLng),
+          holes: holes.length > 0 ? holes.map(hole => hole.map(toLatLng)) : undefined,
+          altitude: receiverHeight,
+        });
+      });
+    });
+  });
+
+  return shadows;
+};
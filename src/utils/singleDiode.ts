@@ -0,0 +1,258 @@
+import { PanFile } from '../types/project';
+
+// PVsyst single-diode model:
+//   I = IL - I0 * (exp((V + I*Rs) / (gamma*Ns*Vt)) - 1) - (V + I*Rs) / Rsh
+// with an irradiance-dependent shunt resistance and a temperature-dependent diode quality factor.
+
+const BOLTZMANN = 1.380649e-23; // J/K
+const ELECTRON_CHARGE = 1.602176634e-19; // C
+const KELVIN = 273.15;
+const T_REF = 25; // STC temperature in °C
+const G_REF = 1000; // STC irradiance in W/m²
+
+// Band gap energy in eV for the PVsyst technology codes found in the `Technol` key.
+const BAND_GAP_EV: { [technology: string]: number } = {
+  mtSiMono: 1.121,
+  mtSiPoly: 1.121,
+  mtHIT: 1.121,
+  mtCdTe: 1.5,
+  mtCIS: 1.1,
+  mtAsiH: 1.7,
+};
+const DEFAULT_BAND_GAP_EV = 1.121;
+
+// PVsyst defaults when a .PAN file omits the shunt resistance model.
+const DEFAULT_RSH_EXP = 5.5;
+const DEFAULT_RSH_0_FACTOR = 4;
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+export interface SingleDiodeParameters {
+  cellsInSeries: number;
+  gammaRef: number;
+  muGamma: number; // 1/°C
+  muIsc: number; // A/°C
+  rs: number; // Ω
+  rshRef: number; // Ω
+  rsh0: number; // Ω
+  rshExp: number;
+  ilRef: number; // A
+  ioRef: number; // A
+  bandGap: number; // eV
+}
+
+// Model parameters evaluated at a given irradiance and cell temperature.
+export interface CellParameters {
+  il: number;
+  io: number;
+  rs: number;
+  rsh: number;
+  nNsVth: number;
+}
+
+export interface IVPoint {
+  voltage: number;
+  current: number;
+  power: number;
+}
+
+export interface OperatingPoint {
+  isc: number;
+  voc: number;
+  imp: number;
+  vmp: number;
+  pmp: number;
+}
+
+const toNumber = (value: string | number | undefined): number | undefined => {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+};
+
+const thermalVoltage = (gamma: number, cellsInSeries: number, tempC: number) =>
+  gamma * cellsInSeries * BOLTZMANN * (tempC + KELVIN) / ELECTRON_CHARGE;
+
+// Extracts the single-diode parameters from a parsed .PAN file. When the file does not carry the reference
+// photocurrent and saturation current they are derived so that the model reproduces Isc and Voc at STC.
+export const getSingleDiodeParameters = (panData: PanFile): SingleDiodeParameters | null => {
+  const isc = toNumber(panData.Isc);
+  const voc = toNumber(panData.Voc);
+  const cellsInSeries = toNumber(panData.NCelS);
+  const gammaRef = toNumber(panData.gamma_ref);
+  const rs = toNumber(panData.R_s);
+  const rshRef = toNumber(panData.R_sh_ref);
+
+  if ([isc, voc, cellsInSeries, gammaRef, rs, rshRef].some(v => v === undefined)) {
+    return null;
+  }
+
+  const params: SingleDiodeParameters = {
+    cellsInSeries: cellsInSeries!,
+    gammaRef: gammaRef!,
+    muGamma: toNumber(panData.mu_gamma) ?? 0,
+    muIsc: (toNumber(panData.mu_Isc) ?? 0) / 1000, // mA/°C in the file
+    rs: rs!,
+    rshRef: rshRef!,
+    rsh0: toNumber(panData.R_sh_0) ?? rshRef! * DEFAULT_RSH_0_FACTOR,
+    rshExp: toNumber(panData.R_sh_exp) ?? DEFAULT_RSH_EXP,
+    ilRef: toNumber(panData.I_L_ref) ?? 0,
+    ioRef: toNumber(panData.I_o_ref) ?? 0,
+    bandGap: BAND_GAP_EV[String(panData.Technol)] ?? DEFAULT_BAND_GAP_EV,
+  };
+
+  if (!params.ilRef || !params.ioRef) {
+    const nNsVth = thermalVoltage(params.gammaRef, params.cellsInSeries, T_REF);
+    let ilRef = isc! * (1 + params.rs / params.rshRef);
+    let ioRef = 0;
+    for (let i = 0; i < 3; i++) {
+      ioRef = (ilRef - voc! / params.rshRef) / (Math.exp(voc! / nNsVth) - 1);
+      ilRef = isc! * (1 + params.rs / params.rshRef) + ioRef * (Math.exp(isc! * params.rs / nNsVth) - 1);
+    }
+    params.ilRef = params.ilRef || ilRef;
+    params.ioRef = params.ioRef || ioRef;
+  }
+
+  return params.ioRef > 0 && params.ilRef > 0 ? params : null;
+};
+
+export const calculateCellParameters = (
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemperature: number
+): CellParameters => {
+  const dT = cellTemperature - T_REF;
+  const tempK = cellTemperature + KELVIN;
+  const tRefK = T_REF + KELVIN;
+  const gamma = params.gammaRef + params.muGamma * dT;
+
+  const il = (irradiance / G_REF) * (params.ilRef + params.muIsc * dT);
+  const io = params.ioRef * Math.pow(tempK / tRefK, 3)
+    * Math.exp((ELECTRON_CHARGE * params.bandGap) / (BOLTZMANN * gamma) * (1 / tRefK - 1 / tempK));
+
+  // Rsh(G) = Rsh_base + (Rsh_0 - Rsh_base) * exp(-Rsh_exp * G / G_ref), anchored so that Rsh(G_ref) = Rsh_ref.
+  const expRef = Math.exp(-params.rshExp);
+  const rshBase = Math.max((params.rshRef - params.rsh0 * expRef) / (1 - expRef), 0);
+  const rsh = rshBase + (params.rsh0 - rshBase) * Math.exp(-params.rshExp * irradiance / G_REF);
+
+  return {
+    il: Math.max(il, 0),
+    io,
+    rs: params.rs,
+    rsh,
+    nNsVth: thermalVoltage(gamma, params.cellsInSeries, cellTemperature),
+  };
+};
+
+// The residual of the diode equation is strictly decreasing in both I and V, so a bracketed Newton step
+// (falling back to bisection) always converges.
+const solveDecreasing = (f: (x: number) => number, df: (x: number) => number, lo: number, hi: number): number => {
+  let x = (lo + hi) / 2;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const fx = f(x);
+    if (Math.abs(fx) < TOLERANCE) break;
+    if (fx > 0) lo = x; else hi = x;
+    const step = x - fx / df(x);
+    x = step > lo && step < hi ? step : (lo + hi) / 2;
+    if (hi - lo < TOLERANCE) break;
+  }
+  return x;
+};
+
+export const calculateCurrent = (cell: CellParameters, voltage: number): number => {
+  const { il, io, rs, rsh, nNsVth } = cell;
+  const f = (i: number) => il - io * (Math.exp((voltage + i * rs) / nNsVth) - 1) - (voltage + i * rs) / rsh - i;
+  const df = (i: number) => -io * rs / nNsVth * Math.exp((voltage + i * rs) / nNsVth) - rs / rsh - 1;
+
+  const hi = il;
+  let lo = Math.min(0, hi) - 1;
+  while (f(lo) <= 0) lo *= 2;
+  return solveDecreasing(f, df, lo, hi);
+};
+
+export const calculateOpenCircuitVoltage = (cell: CellParameters): number => {
+  const { il, io, rsh, nNsVth } = cell;
+  if (il <= 0) return 0;
+  const f = (v: number) => il - io * (Math.exp(v / nNsVth) - 1) - v / rsh;
+  const df = (v: number) => -io / nNsVth * Math.exp(v / nNsVth) - 1 / rsh;
+  return solveDecreasing(f, df, 0, nNsVth * Math.log(il / io + 1));
+};
+
+export const calculateMaxPowerPoint = (cell: CellParameters): OperatingPoint => {
+  const isc = calculateCurrent(cell, 0);
+  const voc = calculateOpenCircuitVoltage(cell);
+  if (voc <= 0) return { isc, voc, imp: 0, vmp: 0, pmp: 0 };
+
+  // P(V) is unimodal on [0, Voc]: golden-section search.
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const power = (v: number) => v * calculateCurrent(cell, v);
+  let a = 0, b = voc;
+  let c = b - ratio * (b - a), d = a + ratio * (b - a);
+  let pc = power(c), pd = power(d);
+  while (b - a > voc * 1e-7) {
+    if (pc > pd) {
+      b = d; d = c; pd = pc;
+      c = b - ratio * (b - a); pc = power(c);
+    } else {
+      a = c; c = d; pc = pd;
+      d = a + ratio * (b - a); pd = power(d);
+    }
+  }
+  const vmp = (a + b) / 2;
+  const imp = calculateCurrent(cell, vmp);
+  return { isc, voc, imp, vmp, pmp: vmp * imp };
+};
+
+export const calculateOperatingPoint = (
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemperature: number
+): OperatingPoint => calculateMaxPowerPoint(calculateCellParameters(params, irradiance, cellTemperature));
+
+export const calculateIVCurve = (
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemperature: number,
+  numPoints = 40
+): IVPoint[] => {
+  const cell = calculateCellParameters(params, irradiance, cellTemperature);
+  const voc = calculateOpenCircuitVoltage(cell);
+  if (voc <= 0) return [];
+
+  const curve: IVPoint[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    const voltage = (voc * i) / numPoints;
+    const current = i === numPoints ? 0 : Math.max(0, calculateCurrent(cell, voltage));
+    curve.push({ voltage, current, power: voltage * current });
+  }
+  return curve;
+};
+
+export interface TemperatureCoefficients {
+  dPmp: number; // %/°C
+  dVmp: number; // %/°C
+  dVoc: number; // %/°C
+}
+
+// Relative temperature coefficients around the given operating point, by central difference over ±1 °C.
+export const calculateTemperatureCoefficients = (
+  params: SingleDiodeParameters,
+  irradiance: number,
+  cellTemperature: number
+): TemperatureCoefficients => {
+  const base = calculateOperatingPoint(params, irradiance, cellTemperature);
+  const hot = calculateOperatingPoint(params, irradiance, cellTemperature + 1);
+  const cold = calculateOperatingPoint(params, irradiance, cellTemperature - 1);
+  const relative = (hotValue: number, coldValue: number, value: number) =>
+    value > 0 ? ((hotValue - coldValue) / 2 / value) * 100 : 0;
+
+  return {
+    dPmp: relative(hot.pmp, cold.pmp, base.pmp),
+    dVmp: relative(hot.vmp, cold.vmp, base.vmp),
+    dVoc: relative(hot.voc, cold.voc, base.voc),
+  };
+};
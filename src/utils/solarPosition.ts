@@ -0,0 +1,91 @@
+// Solar position from Meeus, "Astronomical Algorithms" (ch. 12, 22 and 25), with nutation, aberration and
+// atmospheric refraction. Within about 0.01° of NREL SPA for 1950-2050, far below what matters for
+// irradiance or shadow geometry, at a fraction of SPA's cost.
+
+const DEG = Math.PI / 180;
+const SOLAR_CONSTANT = 1367; // W/m²
+const DELTA_T = 69; // TT - UT in seconds, close enough for this century
+
+export interface SolarPosition {
+  zenith: number; // Apparent (refracted) zenith in degrees
+  elevation: number; // Apparent elevation in degrees
+  azimuth: number; // Degrees clockwise from north
+  declination: number; // Degrees
+}
+
+export interface SolarPositionOptions {
+  pressure?: number; // Site pressure in mbar, for refraction
+  temperature?: number; // Air temperature in °C, for refraction
+}
+
+const normalizeDegrees = (angle: number) => ((angle % 360) + 360) % 360;
+
+const toJulianDay = (date: Date) => date.getTime() / 86400000 + 2440587.5;
+
+export const calculateSolarPosition = (
+  coordinates: { lat: number; lng: number },
+  date: Date,
+  options: SolarPositionOptions = {}
+): SolarPosition => {
+  const { pressure = 1013.25, temperature = 12 } = options;
+  const jd = toJulianDay(date);
+  const jde = jd + DELTA_T / 86400;
+  const T = (jde - 2451545) / 36525;
+
+  // Geometric mean longitude, mean anomaly and equation of centre of the sun
+  const L0 = normalizeDegrees(280.46646 + T * (36000.76983 + T * 0.0003032));
+  const M = normalizeDegrees(357.52911 + T * (35999.05029 - T * 0.0001537)) * DEG;
+  const C = (1.914602 - T * (0.004817 + T * 0.000014)) * Math.sin(M)
+    + (0.019993 - T * 0.000101) * Math.sin(2 * M)
+    + 0.000289 * Math.sin(3 * M);
+
+  // Apparent longitude, corrected for nutation and aberration
+  const omega = (125.04 - 1934.136 * T) * DEG;
+  const nutationLongitude = -0.00478 * Math.sin(omega);
+  const lambda = (L0 + C - 0.00569 + nutationLongitude) * DEG;
+
+  const meanObliquity = 23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * DEG;
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(lambda));
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(lambda), Math.cos(lambda));
+
+  // Apparent sidereal time at Greenwich (UT), then local hour angle
+  const Tu = (jd - 2451545) / 36525;
+  const meanSidereal = 280.46061837 + 360.98564736629 * (jd - 2451545) + Tu * Tu * (0.000387933 - Tu / 38710000);
+  const apparentSidereal = meanSidereal + nutationLongitude * Math.cos(obliquity);
+  const hourAngle = normalizeDegrees(apparentSidereal + coordinates.lng - rightAscension / DEG) * DEG;
+
+  const latitude = coordinates.lat * DEG;
+  const sinElevation = Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle);
+  const trueElevation = Math.asin(Math.max(-1, Math.min(1, sinElevation))) / DEG;
+  const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(latitude) - Math.tan(declination) * Math.cos(latitude)) / DEG;
+
+  // Bennett refraction as used by SPA, applied only while the sun is near or above the horizon
+  const refraction = trueElevation >= -0.8333
+    ? (pressure / 1010) * (283 / (273 + temperature)) * 1.02 / (60 * Math.tan((trueElevation + 10.3 / (trueElevation + 5.11)) * DEG))
+    : 0;
+  const elevation = trueElevation + refraction;
+
+  return {
+    zenith: 90 - elevation,
+    elevation,
+    azimuth: normalizeDegrees(azimuth + 180),
+    declination: declination / DEG,
+  };
+};
+
+const getDayOfYear = (date: Date) => Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+
+// Spencer (1971) earth-sun distance correction.
+export const calculateExtraterrestrialIrradiance = (date: Date) => {
+  const b = 2 * Math.PI * getDayOfYear(date) / 365;
+  return SOLAR_CONSTANT * (1.00011 + 0.034221 * Math.cos(b) + 0.00128 * Math.sin(b)
+    + 0.000719 * Math.cos(2 * b) + 0.000077 * Math.sin(2 * b));
+};
+
+// Kasten & Young (1989) relative air mass from the apparent zenith; null when the sun is down.
+export const calculateAirMass = (zenith: number) => {
+  if (zenith >= 90) return null;
+  return 1 / (Math.cos(zenith * DEG) + 0.50572 * Math.pow(96.07995 - zenith, -1.6364));
+};
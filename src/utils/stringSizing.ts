@@ -0,0 +1,113 @@
+import { DesignTemperatures, FieldSegment, Inverter, Module } from '../types/project';
+
+const T_REF = 25; // STC temperature in °C
+
+// Used until the project has design temperatures from a weather file.
+export const DEFAULT_DESIGN_TEMPERATURES: DesignTemperatures = { recordLow: -10, averageHigh: 35 };
+
+// Cell temperature rise above ambient at the hot design condition. Flush-mounted modules get less airflow.
+const CELL_TEMPERATURE_RISE: { [rackingType: string]: number } = {
+  'Fixed Tilt': 25,
+  'Flush Mount': 35,
+};
+const DEFAULT_CELL_TEMPERATURE_RISE = 25;
+
+export interface StringSizingResult {
+  minModules: number;
+  maxModules: number;
+  vocCold: number; // Module Voc at the record low temperature
+  vmpHot: number; // Module Vmp at the average high cell temperature
+  vmpCold: number; // Module Vmp at the record low temperature
+  isValid: boolean;
+}
+
+export interface StringConfiguration {
+  modulesPerString: number;
+  stringCount: number;
+  unstrungModules: number;
+  invertersRequired: number;
+  warnings: string[];
+}
+
+// Min/max modules per string: the string Voc on the coldest morning must stay below the inverter's absolute max
+// DC voltage, the string Vmp on a cold day must stay below the top of the MPPT window, and the string Vmp on a hot
+// afternoon must stay above the bottom of the MPPT window.
+export const calculateStringSizing = (
+  module: Module,
+  inverter: Inverter,
+  temperatures: DesignTemperatures,
+  rackingType?: FieldSegment['rackingType']
+): StringSizingResult | null => {
+  const { voc, vmp, mu_voc_spec } = module;
+  const { vmpp_min, vmpp_max, vabs_max } = inverter;
+
+  if (!voc || !vmp || mu_voc_spec == null || !vmpp_min || !(vabs_max || vmpp_max)) {
+    return null;
+  }
+
+  const muVoc = mu_voc_spec / 1000; // mV/°C in the .PAN file
+  // The voltage coefficient of Vmp is not in the .PAN summary; use the Voc coefficient scaled to Vmp.
+  const muVmp = muVoc * (vmp / voc);
+  const hotCellTemperature = temperatures.averageHigh + (CELL_TEMPERATURE_RISE[rackingType || ''] ?? DEFAULT_CELL_TEMPERATURE_RISE);
+
+  const vocCold = voc + muVoc * (temperatures.recordLow - T_REF);
+  const vmpHot = vmp + muVmp * (hotCellTemperature - T_REF);
+  const vmpCold = vmp + muVmp * (temperatures.recordLow - T_REF);
+
+  const maxModules = Math.min(
+    Math.floor((vabs_max || vmpp_max!) / vocCold),
+    vmpp_max ? Math.floor(vmpp_max / vmpCold) : Infinity
+  );
+  const minModules = Math.ceil(vmpp_min / vmpHot);
+
+  return {
+    minModules,
+    maxModules,
+    vocCold,
+    vmpHot,
+    vmpCold,
+    isValid: minModules <= maxModules && maxModules > 0,
+  };
+};
+
+export const calculateStringConfiguration = (
+  moduleCount: number,
+  modulesPerString: number,
+  sizing: StringSizingResult,
+  module: Module,
+  inverter: Inverter
+): StringConfiguration => {
+  const warnings: string[] = [];
+
+  if (!sizing.isValid) {
+    warnings.push(`No string length fits this inverter: at least ${sizing.minModules} modules are needed for the MPPT window but at most ${sizing.maxModules} stay under the max DC voltage and the top of the MPPT window.`);
+  } else if (modulesPerString < sizing.minModules || modulesPerString > sizing.maxModules) {
+    warnings.push(`${modulesPerString} modules per string is outside the valid range of ${sizing.minModules}–${sizing.maxModules}.`);
+  }
+
+  const stringCount = modulesPerString > 0 ? Math.floor(moduleCount / modulesPerString) : 0;
+  const unstrungModules = moduleCount - stringCount * modulesPerString;
+
+  if (unstrungModules > 0 && modulesPerString > 0) {
+    const evenLengths: number[] = [];
+    for (let length = sizing.minModules; length <= sizing.maxModules; length++) {
+      if (length > 0 && moduleCount % length === 0) evenLengths.push(length);
+    }
+    warnings.push(
+      `${moduleCount} modules can't be split into whole strings of ${modulesPerString}; ${unstrungModules} module${unstrungModules === 1 ? '' : 's'} left over.`
+      + (evenLengths.length > 0 ? ` Strings of ${evenLengths.join(' or ')} divide evenly.` : '')
+    );
+  }
+
+  const dcPowerKw = (stringCount * modulesPerString * (module.max_power_pmp || 0)) / 1000;
+  const stringCurrent = module.isc || 0;
+  const invertersRequired = stringCount > 0
+    ? Math.max(
+        1,
+        inverter.pmax_dc ? Math.ceil(dcPowerKw / inverter.pmax_dc) : 1,
+        inverter.imax_dc ? Math.ceil((stringCount * stringCurrent) / inverter.imax_dc) : 1
+      )
+    : 0;
+
+  return { modulesPerString, stringCount, unstrungModules, invertersRequired, warnings };
+};
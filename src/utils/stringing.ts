@@ -0,0 +1,51 @@
+import { LatLngTuple } from 'leaflet';
+import { createLocalFrame } from './localProjection';
+
+export const getModuleCentroid = (modulePolygon: LatLngTuple[]): LatLngTuple => {
+  const lat = modulePolygon.reduce((sum, p) => sum + p[0], 0) / modulePolygon.length;
+  const lng = modulePolygon.reduce((sum, p) => sum + p[1], 0) / modulePolygon.length;
+  return [lat, lng];
+};
+
+// Assigns module polygons to strings in serpentine order: rows are walked alternately left-to-right and
+// right-to-left so consecutive modules in a string are always neighbours. Returns the indices into
+// `layout` for each complete string; modules that don't fill a whole string are left unstrung.
+export const assignModuleStrings = (layout: LatLngTuple[][], azimuth: number, modulesPerString: number): number[][] => {
+  if (layout.length === 0 || modulesPerString <= 0) return [];
+
+  const { toLocal } = createLocalFrame(layout[0][0]);
+
+  // Rows run perpendicular to the azimuth the modules face.
+  const azimuthRad = azimuth * Math.PI / 180;
+  const facing = { x: Math.sin(azimuthRad), y: Math.cos(azimuthRad) };
+  const rowAxis = { x: facing.y, y: -facing.x };
+
+  const firstCorners = layout[0].map(toLocal);
+  const depths = firstCorners.map(c => c.x * facing.x + c.y * facing.y);
+  const rowTolerance = (Math.max(...depths) - Math.min(...depths)) / 2;
+
+  const modules = layout.map((polygon, index) => {
+    const c = toLocal(getModuleCentroid(polygon));
+    return { index, depth: c.x * facing.x + c.y * facing.y, along: c.x * rowAxis.x + c.y * rowAxis.y };
+  });
+
+  const rows: typeof modules[] = [];
+  [...modules].sort((a, b) => b.depth - a.depth).forEach(module => {
+    const currentRow = rows[rows.length - 1];
+    if (currentRow && Math.abs(currentRow[0].depth - module.depth) <= rowTolerance) {
+      currentRow.push(module);
+    } else {
+      rows.push([module]);
+    }
+  });
+
+  const ordered = rows.flatMap((row, rowIndex) =>
+    row.sort((a, b) => rowIndex % 2 === 0 ? a.along - b.along : b.along - a.along).map(m => m.index)
+  );
+
+  const strings: number[][] = [];
+  for (let i = 0; i + modulesPerString <= ordered.length; i += modulesPerString) {
+    strings.push(ordered.slice(i, i + modulesPerString));
+  }
+  return strings;
+};
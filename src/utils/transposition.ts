@@ -0,0 +1,111 @@
+import { FieldSegment } from '../types/project';
+import { SolarPosition, calculateAirMass } from './solarPosition';
+
+// Plane-of-array irradiance from GHI/DNI/DHI. The models differ only in how sky diffuse is split between
+// an isotropic dome, the circumsolar region and the horizon band.
+
+const DEG = Math.PI / 180;
+
+export type TranspositionModel = 'isotropic' | 'haydavies' | 'perez';
+
+export interface HorizontalIrradiance {
+  ghi: number; // W/m²
+  dni: number; // W/m²
+  dhi: number; // W/m²
+}
+
+export interface PlaneOfArrayIrradiance {
+  total: number; // W/m²
+  beam: number; // W/m²
+  skyDiffuse: number; // W/m²
+  groundReflected: number; // W/m²
+  angleOfIncidence: number; // Degrees
+}
+
+export interface TranspositionOptions {
+  model?: TranspositionModel;
+  albedo?: number;
+}
+
+// Perez et al. (1990) "allsitescomposite1990" coefficients: F11, F12, F13, F21, F22, F23 per sky clearness bin.
+const PEREZ_COEFFICIENTS = [
+  [-0.008, 0.588, -0.062, -0.06, 0.072, -0.022],
+  [0.13, 0.683, -0.151, -0.019, 0.066, -0.029],
+  [0.33, 0.487, -0.221, 0.055, -0.064, -0.026],
+  [0.568, 0.187, -0.295, 0.109, -0.152, -0.014],
+  [0.873, -0.392, -0.362, 0.226, -0.462, 0.001],
+  [1.132, -1.237, -0.412, 0.288, -0.823, 0.056],
+  [1.06, -1.6, -0.359, 0.264, -1.127, 0.131],
+  [0.678, -0.327, -0.25, 0.156, -1.377, 0.251],
+];
+const PEREZ_CLEARNESS_BINS = [1.065, 1.23, 1.5, 1.95, 2.8, 4.5, 6.2];
+const PEREZ_KAPPA = 1.041;
+
+export const calculateAngleOfIncidence = (tilt: number, surfaceAzimuth: number, sun: SolarPosition) => {
+  const zenith = sun.zenith * DEG;
+  const cosAoi = Math.cos(zenith) * Math.cos(tilt * DEG)
+    + Math.sin(zenith) * Math.sin(tilt * DEG) * Math.cos((sun.azimuth - surfaceAzimuth) * DEG);
+  return Math.acos(Math.max(-1, Math.min(1, cosAoi))) / DEG;
+};
+
+const calculateSkyDiffuse = (
+  model: TranspositionModel,
+  tilt: number,
+  cosAoi: number,
+  sun: SolarPosition,
+  irradiance: HorizontalIrradiance,
+  dniExtra: number
+) => {
+  const { dni, dhi } = irradiance;
+  const isotropic = dhi * (1 + Math.cos(tilt * DEG)) / 2;
+  if (model === 'isotropic' || dhi <= 0) return isotropic;
+
+  const cosZenith = Math.cos(sun.zenith * DEG);
+
+  if (model === 'haydavies') {
+    const anisotropyIndex = Math.min(1, dni / dniExtra);
+    const rb = Math.max(0, cosAoi) / Math.max(cosZenith, 0.01745);
+    return dhi * ((1 - anisotropyIndex) * (1 + Math.cos(tilt * DEG)) / 2 + anisotropyIndex * rb);
+  }
+
+  const airMass = calculateAirMass(sun.zenith);
+  if (airMass === null) return isotropic;
+
+  const zenithRad = sun.zenith * DEG;
+  const kz3 = PEREZ_KAPPA * Math.pow(zenithRad, 3);
+  const clearness = ((dhi + dni) / dhi + kz3) / (1 + kz3);
+  const brightness = dhi * airMass / dniExtra;
+
+  const bin = PEREZ_CLEARNESS_BINS.findIndex(limit => clearness < limit);
+  const [f11, f12, f13, f21, f22, f23] = PEREZ_COEFFICIENTS[bin === -1 ? PEREZ_COEFFICIENTS.length - 1 : bin];
+  const f1 = Math.max(0, f11 + f12 * brightness + f13 * zenithRad);
+  const f2 = f21 + f22 * brightness + f23 * zenithRad;
+
+  const a = Math.max(0, cosAoi);
+  const b = Math.max(Math.cos(85 * DEG), cosZenith);
+  return Math.max(0, dhi * ((1 - f1) * (1 + Math.cos(tilt * DEG)) / 2 + f1 * a / b + f2 * Math.sin(tilt * DEG)));
+};
+
+// Irradiance on the plane of a field segment's modules (`moduleTilt` from horizontal, `azimuth` clockwise from north).
+export const calculatePlaneOfArrayIrradiance = (
+  segment: Pick<FieldSegment, 'moduleTilt' | 'azimuth'>,
+  sun: SolarPosition,
+  irradiance: HorizontalIrradiance,
+  dniExtra: number,
+  options: TranspositionOptions = {}
+): PlaneOfArrayIrradiance => {
+  const { model = 'perez', albedo = 0.2 } = options;
+  const tilt = segment.moduleTilt || 0;
+  const angleOfIncidence = calculateAngleOfIncidence(tilt, segment.azimuth, sun);
+
+  if (sun.zenith >= 90) {
+    return { total: 0, beam: 0, skyDiffuse: 0, groundReflected: 0, angleOfIncidence };
+  }
+
+  const cosAoi = Math.cos(angleOfIncidence * DEG);
+  const beam = Math.max(0, irradiance.dni * cosAoi);
+  const skyDiffuse = calculateSkyDiffuse(model, tilt, cosAoi, sun, irradiance, dniExtra);
+  const groundReflected = irradiance.ghi * albedo * (1 - Math.cos(tilt * DEG)) / 2;
+
+  return { total: beam + skyDiffuse + groundReflected, beam, skyDiffuse, groundReflected, angleOfIncidence };
+};
@@ -0,0 +1,180 @@
+import { DesignTemperatures, WeatherData } from '../types/project';
+
+const HOURS_PER_YEAR = 8760;
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// EPW data columns (0-based), see the EnergyPlus Auxiliary Programs guide.
+const EPW_COLUMNS = { month: 1, day: 2, tempAir: 6, ghi: 13, dni: 14, dhi: 15, windSpeed: 21 };
+const EPW_HEADER_LINES = 8;
+
+// TMY3 column headers as written by NSRDB.
+const TMY3_COLUMNS = {
+  date: 'Date (MM/DD/YYYY)',
+  ghi: 'GHI (W/m^2)',
+  dni: 'DNI (W/m^2)',
+  dhi: 'DHI (W/m^2)',
+  tempAir: 'Dry-bulb (C)',
+  windSpeed: 'Wspd (m/s)',
+};
+
+export interface MonthlyWeatherSummary {
+  ghi: number; // kWh/m²
+  dni: number; // kWh/m²
+  dhi: number; // kWh/m²
+  averageTemp: number; // °C
+  averageWindSpeed: number; // m/s
+}
+
+// Splits a CSV line, keeping commas inside quoted fields (TMY3 station names are quoted).
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else current += char;
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+const createEmptyWeather = (source: string, timeZone: number): WeatherData => ({
+  source,
+  timeZone,
+  ghi: [],
+  dni: [],
+  dhi: [],
+  tempAir: [],
+  windSpeed: [],
+});
+
+// Missing-value sentinels differ between formats (9999 in EPW, -9900 in TMY3), so anything outside
+// physical bounds is treated as missing and replaced by the previous hour's value.
+const readValue = (raw: string | undefined, min: number, max: number, previous: number[]) => {
+  const value = parseFloat(raw ?? '');
+  if (isNaN(value) || value < min || value > max) {
+    return previous.length > 0 ? previous[previous.length - 1] : 0;
+  }
+  return Math.round(value * 10) / 10;
+};
+
+const pushHour = (weather: WeatherData, values: { ghi?: string; dni?: string; dhi?: string; tempAir?: string; windSpeed?: string }) => {
+  weather.ghi.push(readValue(values.ghi, 0, 1500, weather.ghi));
+  weather.dni.push(readValue(values.dni, 0, 1500, weather.dni));
+  weather.dhi.push(readValue(values.dhi, 0, 1000, weather.dhi));
+  weather.tempAir.push(readValue(values.tempAir, -90, 70, weather.tempAir));
+  weather.windSpeed.push(readValue(values.windSpeed, 0, 80, weather.windSpeed));
+};
+
+const parseEpw = (lines: string[]): WeatherData => {
+  // LOCATION,City,State,Country,Source,WMO,Latitude,Longitude,TimeZone,Elevation
+  const location = splitCsvLine(lines[0]);
+  const timeZone = parseFloat(location[8]);
+  if (isNaN(timeZone)) throw new Error('EPW file is missing the time zone in its LOCATION header.');
+
+  const weather = createEmptyWeather(`${location[1]} (EPW)`, timeZone);
+  lines.slice(EPW_HEADER_LINES).forEach(line => {
+    const fields = splitCsvLine(line);
+    if (fields.length <= EPW_COLUMNS.windSpeed) return;
+    // Typical years are 8760 hours; drop Feb 29 if the file was built from a leap year.
+    if (fields[EPW_COLUMNS.month] === '2' && fields[EPW_COLUMNS.day] === '29') return;
+    pushHour(weather, {
+      ghi: fields[EPW_COLUMNS.ghi],
+      dni: fields[EPW_COLUMNS.dni],
+      dhi: fields[EPW_COLUMNS.dhi],
+      tempAir: fields[EPW_COLUMNS.tempAir],
+      windSpeed: fields[EPW_COLUMNS.windSpeed],
+    });
+  });
+  return weather;
+};
+
+const parseTmy3 = (lines: string[]): WeatherData => {
+  // USAF,Name,State,TimeZone,Latitude,Longitude,Elevation
+  const site = splitCsvLine(lines[0]);
+  const timeZone = parseFloat(site[3]);
+  if (isNaN(timeZone)) throw new Error('TMY3 file is missing the time zone in its site header.');
+
+  const headers = splitCsvLine(lines[1]);
+  const columnIndex = (name: string) => {
+    const index = headers.indexOf(name);
+    if (index === -1) throw new Error(`TMY3 file is missing the "${name}" column.`);
+    return index;
+  };
+  const columns = {
+    date: columnIndex(TMY3_COLUMNS.date),
+    ghi: columnIndex(TMY3_COLUMNS.ghi),
+    dni: columnIndex(TMY3_COLUMNS.dni),
+    dhi: columnIndex(TMY3_COLUMNS.dhi),
+    tempAir: columnIndex(TMY3_COLUMNS.tempAir),
+    windSpeed: columnIndex(TMY3_COLUMNS.windSpeed),
+  };
+
+  const weather = createEmptyWeather(`${site[1]} (TMY3)`, timeZone);
+  lines.slice(2).forEach(line => {
+    const fields = splitCsvLine(line);
+    if (fields.length < headers.length) return;
+    if (fields[columns.date].startsWith('02/29')) return;
+    pushHour(weather, {
+      ghi: fields[columns.ghi],
+      dni: fields[columns.dni],
+      dhi: fields[columns.dhi],
+      tempAir: fields[columns.tempAir],
+      windSpeed: fields[columns.windSpeed],
+    });
+  });
+  return weather;
+};
+
+// Parses an EnergyPlus EPW or NSRDB TMY3 CSV file into hourly weather. Both formats label each
+// row with the hour ending, so row N covers local standard time N-1:00 to N:00.
+export const parseWeatherFile = (content: string): WeatherData => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) throw new Error('The weather file is empty.');
+
+  const weather = lines[0].toUpperCase().startsWith('LOCATION,') ? parseEpw(lines) : parseTmy3(lines);
+  if (weather.ghi.length !== HOURS_PER_YEAR) {
+    throw new Error(`Expected ${HOURS_PER_YEAR} hourly records but found ${weather.ghi.length}.`);
+  }
+  return weather;
+};
+
+export const summarizeWeatherByMonth = (weather: WeatherData): MonthlyWeatherSummary[] => {
+  const summaries: MonthlyWeatherSummary[] = [];
+  let start = 0;
+  DAYS_IN_MONTH.forEach(days => {
+    const end = start + days * 24;
+    const sum = (values: number[]) => values.slice(start, end).reduce((total, v) => total + v, 0);
+    summaries.push({
+      ghi: sum(weather.ghi) / 1000,
+      dni: sum(weather.dni) / 1000,
+      dhi: sum(weather.dhi) / 1000,
+      averageTemp: sum(weather.tempAir) / (end - start),
+      averageWindSpeed: sum(weather.windSpeed) / (end - start),
+    });
+    start = end;
+  });
+  return summaries;
+};
+
+// Record low is the coldest hour of the year; average high is the mean daily maximum of the
+// hottest month, which is what string sizing uses for Vmp at operating temperature.
+export const calculateDesignTemperatures = (weather: WeatherData): DesignTemperatures => {
+  const recordLow = Math.min(...weather.tempAir);
+
+  let averageHigh = -Infinity;
+  let day = 0;
+  DAYS_IN_MONTH.forEach(days => {
+    let totalHigh = 0;
+    for (let d = day; d < day + days; d++) {
+      totalHigh += Math.max(...weather.tempAir.slice(d * 24, d * 24 + 24));
+    }
+    averageHigh = Math.max(averageHigh, totalHigh / days);
+    day += days;
+  });
+
+  return { recordLow: Math.round(recordLow * 10) / 10, averageHigh: Math.round(averageHigh * 10) / 10 };
+};
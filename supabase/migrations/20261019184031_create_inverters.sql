@@ -0,0 +1,24 @@
+-- Inverter library imported from PVsyst .OND files. The parsed file is kept whole in raw_ond_data; the columns
+-- below are the values the design tools read directly.
+create table if not exists public.inverters (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  model_name text not null,
+  manufacturer text,
+  raw_ond_data jsonb,
+  pnom_ac double precision, -- kW
+  pmax_ac double precision, -- kW
+  pnom_dc double precision, -- kW
+  pmax_dc double precision, -- kW
+  vout_ac double precision, -- V
+  vmpp_min double precision, -- V
+  vmpp_max double precision, -- V
+  vabs_max double precision, -- V
+  imax_dc double precision, -- A
+  n_inputs integer,
+  n_mppt integer,
+  efficiency_max double precision, -- %
+  efficiency_euro double precision, -- %
+  efficiency_curves jsonb,
+  data_source text
+);
@@ -0,0 +1,5 @@
+-- Design temperatures for string sizing, in °C. Left null until a weather file is imported; the app then
+-- falls back to its default design temperatures.
+alter table public.projects
+  add column if not exists record_low_temp double precision,
+  add column if not exists average_high_temp double precision;
@@ -0,0 +1,3 @@
+-- Hourly weather for a typical year imported from an EPW or TMY3 file (see WeatherData in src/types/project.ts).
+alter table public.projects
+  add column if not exists weather_data jsonb;
@@ -0,0 +1,3 @@
+-- Obstructions drawn in the design editor (see Obstruction in src/types/project.ts).
+alter table public.designs
+  add column if not exists obstructions jsonb not null default '[]'::jsonb;
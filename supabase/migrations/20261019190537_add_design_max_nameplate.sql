@@ -0,0 +1,3 @@
+-- DC size cap shared by all field segments of a design, in kWp. Null means no cap.
+alter table public.designs
+  add column if not exists max_nameplate double precision;
@@ -0,0 +1,11 @@
+-- Named copies of a design's field segments, saved by hand or automatically before an operation replaces them.
+create table if not exists public.design_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  design_id uuid not null references public.designs (id) on delete cascade,
+  name text not null,
+  field_segments jsonb not null default '[]'::jsonb,
+  is_automatic boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists design_snapshots_design_id_idx on public.design_snapshots (design_id);
@@ -0,0 +1,3 @@
+-- Design a clone was copied from. Cleared when the parent is deleted so the clone stays.
+alter table public.designs
+  add column if not exists parent_design_id uuid references public.designs (id) on delete set null;